@@ -1,84 +1,77 @@
 import React, { useState, useRef, useEffect } from 'react';
 import TableMergeManager from './components/TableMergeManager';
 import TableLoader from './components/TableLoader';
+import ImportPreviewDialog, { type ImportPreviewResult } from './components/ImportPreviewDialog';
+import type { SqliteExportTarget } from './components/SqliteExportDialog';
+import HistoryPanel from './components/HistoryPanel';
 import Tabs from './components/ui/Tabs';
-import * as XLSX from 'xlsx';
+import {
+  applyConflictResolutions,
+  applyConflictProvenance,
+  DEFAULT_CONFLICT_OPTIONS,
+  type ConflictOptions,
+  type DuplicateStrategy,
+  type FuzzyMatch,
+  type JoinType,
+  type MergeConflict,
+  type MergeMode,
+  type RowProvenance,
+  type SourcesMergeResult,
+} from './lib/merge';
+import { DEFAULT_KEY_MATCH_OPTIONS, type KeyMatchOptions } from './lib/keyMatch';
+import {
+  applyColumnMapping,
+  applyColumnMappingToNames,
+  applyColumnMappingToOrder,
+  applyColumnMappingToSchema,
+  findMappingCollisions,
+  type ColumnMapping,
+} from './lib/columnMapping';
+import { displayName, mergeColumnNames, type ColumnNames } from './lib/columnNames';
+import { getAllColumns, mergeColumnOrders, resolveColumnOrder } from './lib/columnOrder';
+import type { SqlScriptOptions } from './lib/sqlScript';
+import { MISSING_PROVENANCE_MESSAGE } from './lib/report';
+import { applySchema, inferSchema, mergeSchemas, type ColumnSchema } from './lib/schema';
+import type { SourceTable } from './lib/table';
+import { resolveExportDelimiter, type CsvDelimiterOption } from './lib/csv';
+import type { ImportEncoding, TextEncoding } from './lib/encoding';
+import { hasImportError, textSource, type ImportIssue } from './lib/importers';
+import type { ExportTable, ExportTask, ParsedFile, ReportSource, Task, TaskResult } from './lib/tasks';
+import { downloadFile, isCancelled, runInWorker, type TaskStatus } from './lib/taskClient';
+import { emptyHistory, moveHistory, recordHistory, type History } from './lib/history';
+import { SAVE_DELAY_MS, saveToStorage } from './lib/storage';
 
 // TableRow type for TableLoader
 interface TableRow {
   [key: string]: string | number | undefined;
 }
 
-function parseCSV(text: string): TableRow[] {
-  const lines = text.trim().split(/\r?\n/);
-  if (lines.length < 2) return [];
-  const headers = lines[0].split(',').map(h => h.trim());
-  const lowerHeaders = headers.map(h => h.toLowerCase());
-  const convertValue = (value: string): string | number => {
-    const trimmed = value.trim();
-    if (trimmed === '') return '';
-    const num = Number(trimmed);
-    if (!isNaN(num) && trimmed !== '') {
-      return num;
-    }
-    return trimmed;
-  };
-  return lines.slice(1).map(line => {
-    const values = line.split(',');
-    const obj: TableRow = {};
-    lowerHeaders.forEach((h, i) => {
-      obj[h] = convertValue(values[i] || '');
-    });
-    return obj;
-  });
+function createSource(name: string, rows: TableRow[] = []): SourceTable {
+  return { id: crypto.randomUUID(), name, rows, showPaste: false, pasteText: '', schema: inferSchema(rows), columnNames: {}, columnOrder: [] };
 }
 
-function toCSV(data: TableRow[], columns: string[]): string {
-  const header = columns.join(',');
-  const rows = data.map(row => columns.map(col => row[col.toLowerCase()] ?? '').join(','));
-  return [header, ...rows].join('\n');
+// 되돌리기 기록에 담는 탭별 테이블 상태
+interface LoaderSnapshot {
+  table: TableRow[];
+  schema: ColumnSchema;
+  columnNames: ColumnNames;
+  columnOrder: string[];
+  selectedHeaders: string[];
 }
 
-function getAllColumns(table: TableRow[]): string[] {
-  const set = new Set<string>();
-  table.forEach(row => Object.keys(row).forEach(col => set.add(col.toLowerCase())));
-  return Array.from(set);
+interface MergeSnapshot {
+  sources: SourceTable[];
+  mergedTable: TableRow[];
+  mergedProvenance: RowProvenance[] | null;
+  mergedColumnNames: ColumnNames;
+  mergedColumnOrder: string[];
 }
 
-function parsePastedTable(text: string): TableRow[] {
-  try {
-    if (text.trim().startsWith('[')) {
-      const arr = JSON.parse(text) as TableRow[];
-      return arr.map((row) => {
-        const newRow: TableRow = {};
-        Object.keys(row).forEach(k => {
-          newRow[k.toLowerCase()] = row[k];
-        });
-        return newRow;
-      });
-    }
-  } catch {}
-  const lines = text.trim().split(/\r?\n/);
-  if (lines.length < 2) return [];
-  const headers = lines[0].split(/\t|,/).map(h => h.trim());
-  const lowerHeaders = headers.map(h => h.toLowerCase());
-  const convertValue = (value: string): string | number => {
-    const trimmed = value.trim();
-    if (trimmed === '') return '';
-    const num = Number(trimmed);
-    if (!isNaN(num) && trimmed !== '') {
-      return num;
-    }
-    return trimmed;
-  };
-  return lines.slice(1).map(line => {
-    const values = line.split(/\t|,/);
-    const obj: TableRow = {};
-    lowerHeaders.forEach((h, i) => {
-      obj[h] = convertValue(values[i] || '');
-    });
-    return obj;
-  });
+// 'Source N' 형식의 겹치지 않는 기본 이름
+function nextSourceName(sources: SourceTable[]): string {
+  let n = sources.length + 1;
+  while (sources.some(s => s.name === `Source ${n}`)) n++;
+  return `Source ${n}`;
 }
 
 function App() {
@@ -89,19 +82,77 @@ function App() {
   const [selectedHeaders, setSelectedHeaders] = useState<string[]>([]);
   const [showPaste, setShowPaste] = useState(false);
   const [pasteText, setPasteText] = useState('');
+  // 컬럼별 타입 (가져올 때 추론, 사용자가 변경 가능)
+  const [schema, setSchema] = useState<ColumnSchema>({});
+  const [columnNames, setColumnNames] = useState<ColumnNames>({});
+  const [columnOrder, setColumnOrder] = useState<string[]>([]);
   const fileInput = useRef<HTMLInputElement>(null);
+  // CSV 가져오기/내보내기 구분자 (두 탭 공통)
+  const [csvDelimiter, setCsvDelimiter] = useState<CsvDelimiterOption>(
+    () => (localStorage.getItem('csvDelimiter') as CsvDelimiterOption | null) || 'auto'
+  );
+  // 텍스트 파일 가져오기/CSV 내보내기 인코딩 (두 탭 공통)
+  const [importEncoding, setImportEncoding] = useState<ImportEncoding>(
+    () => (localStorage.getItem('importEncoding') as ImportEncoding | null) || 'auto'
+  );
+  const [exportEncoding, setExportEncoding] = useState<TextEncoding>(
+    () => (localStorage.getItem('exportEncoding') as TextEncoding | null) || 'utf-8'
+  );
+  // 내보낼 때 정규화 키 대신 원래 컬럼명을 헤더로 사용
+  const [exportOriginalHeaders, setExportOriginalHeaders] = useState(
+    () => localStorage.getItem('exportOriginalHeaders') !== 'false'
+  );
+  // JSON 내보내기 시 점 표기 컬럼(address.city)을 중첩 객체로 복원
+  const [exportNestedJson, setExportNestedJson] = useState(() => localStorage.getItem('exportNestedJson') === 'true');
 
-  // TableMergeManager state
-  const [table1, setTable1] = useState<TableRow[]>([]);
-  const [table2, setTable2] = useState<TableRow[]>([]);
+  // TableMergeManager state (첫 번째 소스가 Main Table, 순서가 우선순위)
+  const [sources, setSources] = useState<SourceTable[]>(() => [
+    createSource('Main Table'),
+    createSource('Additional Table'),
+  ]);
   const [mergedTable, setMergedTable] = useState<TableRow[]>([]);
-  const [mergeKey, setMergeKey] = useState('');
-  const [showPaste1, setShowPaste1] = useState(false);
-  const [showPaste2, setShowPaste2] = useState(false);
-  const [pasteText1, setPasteText1] = useState('');
-  const [pasteText2, setPasteText2] = useState('');
-  const fileInput1 = useRef<HTMLInputElement>(null);
-  const fileInput2 = useRef<HTMLInputElement>(null);
+  // mergedTable과 같은 순서의 셀별 출처. null이면 새로고침 후 복원한 결과라 출처를 알 수 없음
+  const [mergedProvenance, setMergedProvenance] = useState<RowProvenance[] | null>([]);
+  const [mergedColumnNames, setMergedColumnNames] = useState<ColumnNames>({});
+  const [mergedColumnOrder, setMergedColumnOrder] = useState<string[]>([]);
+  const [mergeKeys, setMergeKeys] = useState<string[]>([]);
+  const [joinType, setJoinType] = useState<JoinType>('full');
+  const [mergeMode, setMergeMode] = useState<MergeMode>('sequential');
+  const [conflictOptions, setConflictOptions] = useState<ConflictOptions>(DEFAULT_CONFLICT_OPTIONS);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('error');
+  const [keyMatchOptions, setKeyMatchOptions] = useState<KeyMatchOptions>(DEFAULT_KEY_MATCH_OPTIONS);
+  // 소스 id → 해당 소스 컬럼을 Main 컬럼에 대응시키는 매핑
+  const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMapping>>({});
+  // 사용자 확인을 기다리는 퍼지 매칭 후보
+  const [pendingFuzzy, setPendingFuzzy] = useState<FuzzyMatch[] | null>(null);
+  // 충돌 검토 대기 중인 병합 결과 (검토 완료 전에는 mergedTable에 쓰지 않음)
+  const [pendingMerge, setPendingMerge] = useState<SourcesMergeResult | null>(null);
+
+  // 미리보기 확인을 기다리는 파일 (target: 'loader' 또는 소스 id)
+  const [pendingImport, setPendingImport] = useState<{ target: string; fileName: string; buffer: ArrayBuffer } | null>(null);
+
+  // 대상('loader' 또는 소스 id)별 마지막 가져오기 경고/오류
+  const [importIssues, setImportIssues] = useState<Record<string, ImportIssue[]>>({});
+
+  // 저장 키별 localStorage 저장 오류와 아직 실행하지 않은 저장
+  const [storageErrors, setStorageErrors] = useState<Record<string, string | null>>({});
+  const pendingSaves = useRef<Record<string, () => void>>({});
+  const storageError = Object.values(storageErrors).find(Boolean);
+
+  // 진행 중인 Worker 작업 (한 번에 하나만 실행)
+  const [task, setTask] = useState<TaskStatus | null>(null);
+  const taskController = useRef<AbortController | null>(null);
+
+  // 탭별 되돌리기 기록 (저장하지 않음)
+  const [loaderHistory, setLoaderHistory] = useState<History<LoaderSnapshot>>(emptyHistory);
+  const [mergeHistory, setMergeHistory] = useState<History<MergeSnapshot>>(emptyHistory);
+  // 비동기 작업이 끝난 뒤에도 그 시점의 상태를 기록하도록 매 렌더링마다 갱신
+  const currentSnapshots: { loader: LoaderSnapshot; merge: MergeSnapshot } = {
+    loader: { table, schema, columnNames, columnOrder, selectedHeaders },
+    merge: { sources, mergedTable, mergedProvenance, mergedColumnNames, mergedColumnOrder },
+  };
+  const snapshots = useRef(currentSnapshots);
+  snapshots.current = currentSnapshots;
 
   // Load from localStorage on mount
   useEffect(() => {
@@ -110,6 +161,9 @@ function App() {
       try {
         const parsed = JSON.parse(savedTableLoader);
         setTable(parsed.table || []);
+        setSchema(parsed.schema || inferSchema(parsed.table || []));
+        setColumnNames(parsed.columnNames || {});
+        setColumnOrder(parsed.columnOrder || []);
         setSelectedHeaders(parsed.selectedHeaders || []);
         setShowPaste(parsed.showPaste || false);
         setPasteText(parsed.pasteText || '');
@@ -120,99 +174,247 @@ function App() {
     if (savedTableMerge) {
       try {
         const parsed = JSON.parse(savedTableMerge);
-        setTable1(parsed.table1 || []);
-        setTable2(parsed.table2 || []);
+        if (parsed.sources) {
+          // 스키마가 없던 버전은 저장된 값으로 추론
+          setSources((parsed.sources as SourceTable[]).map(src => ({
+            ...src,
+            schema: src.schema || inferSchema(src.rows),
+            columnNames: src.columnNames || {},
+            columnOrder: src.columnOrder || [],
+          })));
+          setColumnMappings(parsed.columnMappings || {});
+        } else {
+          // 이전 버전은 table1/table2 두 테이블로 저장
+          const main = { ...createSource('Main Table', parsed.table1 || []), showPaste: parsed.showPaste1 || false, pasteText: parsed.pasteText1 || '' };
+          const additional = { ...createSource('Additional Table', parsed.table2 || []), showPaste: parsed.showPaste2 || false, pasteText: parsed.pasteText2 || '' };
+          setSources([main, additional]);
+          if (parsed.columnMapping) setColumnMappings({ [additional.id]: parsed.columnMapping });
+        }
         setMergedTable(parsed.mergedTable || []);
-        setMergeKey(parsed.mergeKey || '');
-        setShowPaste1(parsed.showPaste1 || false);
-        setShowPaste2(parsed.showPaste2 || false);
-        setPasteText1(parsed.pasteText1 || '');
-        setPasteText2(parsed.pasteText2 || '');
+        // 셀 출처를 저장하지 않으므로 복원한 병합 결과는 다시 병합하기 전까지 리포트를 만들 수 없음
+        setMergedProvenance(parsed.mergedProvenance || (parsed.mergedTable?.length ? null : []));
+        setMergedColumnNames(parsed.mergedColumnNames || {});
+        setMergedColumnOrder(parsed.mergedColumnOrder || []);
+        // 이전 버전은 단일 mergeKey 문자열로 저장
+        setMergeKeys(parsed.mergeKeys || (parsed.mergeKey ? [parsed.mergeKey] : []));
+        setJoinType(parsed.joinType || 'full');
+        setMergeMode(parsed.mergeMode || 'sequential');
+        setConflictOptions({ ...DEFAULT_CONFLICT_OPTIONS, ...parsed.conflictOptions });
+        setDuplicateStrategy(parsed.duplicateStrategy || 'error');
+        setKeyMatchOptions({ ...DEFAULT_KEY_MATCH_OPTIONS, ...parsed.keyMatchOptions });
       } catch {}
     }
   }, []);
 
-  // Save TableLoader state to localStorage on state change
   useEffect(() => {
-    localStorage.setItem('tableLoaderState', JSON.stringify({
-      table,
-      selectedHeaders,
-      showPaste,
-      pasteText,
-    }));
-  }, [table, selectedHeaders, showPaste, pasteText]);
+    localStorage.setItem('csvDelimiter', csvDelimiter);
+    localStorage.setItem('importEncoding', importEncoding);
+    localStorage.setItem('exportEncoding', exportEncoding);
+    localStorage.setItem('exportOriginalHeaders', String(exportOriginalHeaders));
+    localStorage.setItem('exportNestedJson', String(exportNestedJson));
+  }, [csvDelimiter, importEncoding, exportEncoding, exportOriginalHeaders, exportNestedJson]);
+
+  // 상태가 바뀌고 SAVE_DELAY_MS 동안 더 바뀌지 않으면 저장. 페이지를 떠날 때는 남은 저장을 바로 실행
+  const scheduleSave = (key: string, value: () => unknown) => {
+    const save = () => {
+      delete pendingSaves.current[key];
+      const error = saveToStorage(key, value());
+      setStorageErrors(prev => (prev[key] === error ? prev : { ...prev, [key]: error }));
+    };
+    pendingSaves.current[key] = save;
+    const timer = setTimeout(save, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  };
 
-  // Save TableMergeManager state to localStorage on state change
   useEffect(() => {
-    localStorage.setItem('tableMergeState', JSON.stringify({
-      table1,
-      table2,
-      mergedTable,
-      mergeKey,
-      showPaste1,
-      showPaste2,
-      pasteText1,
-      pasteText2,
+    const flush = () => Object.values(pendingSaves.current).forEach(save => save());
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  // Save TableLoader state to localStorage on state change
+  useEffect(() => scheduleSave('tableLoaderState', () => ({
+    table,
+    selectedHeaders,
+    showPaste,
+    pasteText,
+    schema,
+    columnNames,
+    columnOrder,
+  })), [table, selectedHeaders, showPaste, pasteText, schema, columnNames, columnOrder]);
+
+  // Save TableMergeManager state to localStorage on state change
+  // 셀 출처는 병합 결과보다 커서 저장하지 않음 (새로고침 후에는 다시 병합해야 출처 표시와 리포트를 볼 수 있음)
+  useEffect(() => scheduleSave('tableMergeState', () => ({
+    sources,
+    mergedTable,
+    mergedColumnNames,
+    mergedColumnOrder,
+    mergeKeys,
+    joinType,
+    mergeMode,
+    conflictOptions,
+    duplicateStrategy,
+    keyMatchOptions,
+    columnMappings,
+  })), [sources, mergedTable, mergedColumnNames, mergedColumnOrder, mergeKeys, joinType, mergeMode, conflictOptions, duplicateStrategy, keyMatchOptions, columnMappings]);
+
+  // 붙여넣기 읽기, 병합, 내보내기는 Worker에서 실행하며 진행 상황을 표시. 취소하거나 실패하면 null
+  const runTask = async <T extends Task>(label: string, job: T): Promise<TaskResult<T> | null> => {
+    if (taskController.current) {
+      alert('진행 중인 작업이 끝난 뒤 다시 시도하세요.');
+      return null;
+    }
+    const controller = new AbortController();
+    taskController.current = controller;
+    setTask({ label, done: 0, total: 0 });
+    try {
+      return await runInWorker(job, (done, total) => setTask({ label, done, total }), controller.signal);
+    } catch (e) {
+      if (!isCancelled(e)) alert(`${label} 오류: ${(e as Error).message}`);
+      return null;
+    } finally {
+      taskController.current = null;
+      setTask(null);
+    }
+  };
+
+  const handleCancelTask = () => taskController.current?.abort();
+
+  // 테이블을 바꾸기 직전에 호출해 현재 상태를 기록
+  const recordLoader = (label: string) => setLoaderHistory(h => recordHistory(h, label, snapshots.current.loader));
+  const recordMerge = (label: string) => setMergeHistory(h => recordHistory(h, label, snapshots.current.merge));
+
+  const restoreLoader = (snapshot: LoaderSnapshot) => {
+    setTable(snapshot.table);
+    setSchema(snapshot.schema);
+    setColumnNames(snapshot.columnNames);
+    setColumnOrder(snapshot.columnOrder);
+    setSelectedHeaders(snapshot.selectedHeaders);
+  };
+
+  // 붙여넣기 입력창 상태는 되돌리지 않음
+  const restoreMerge = (snapshot: MergeSnapshot) => {
+    setSources(prev => snapshot.sources.map(src => {
+      const current = prev.find(p => p.id === src.id);
+      return current ? { ...src, showPaste: current.showPaste, pasteText: current.pasteText } : src;
     }));
-  }, [table1, table2, mergedTable, mergeKey, showPaste1, showPaste2, pasteText1, pasteText2]);
+    setMergedTable(snapshot.mergedTable);
+    setMergedProvenance(snapshot.mergedProvenance);
+    setMergedColumnNames(snapshot.mergedColumnNames);
+    setMergedColumnOrder(snapshot.mergedColumnOrder);
+  };
 
-  // TableLoader handlers
-  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = ev => {
-      let data: TableRow[] = [];
-      try {
-        if (file.name.endsWith('.json')) {
-          const arr = JSON.parse(ev.target?.result as string) as TableRow[];
-          data = arr.map((row) => {
-            const newRow: TableRow = {};
-            Object.keys(row).forEach(k => {
-              newRow[k.toLowerCase()] = row[k];
-            });
-            return newRow;
-          });
-        } else if (file.name.endsWith('.csv')) {
-          data = parseCSV(ev.target?.result as string);
-        } else if (file.name.endsWith('.xlsx')) {
-          const arr = new Uint8Array(ev.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(arr, { type: 'array' });
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const raw = XLSX.utils.sheet_to_json(sheet, { defval: '' }) as TableRow[];
-          data = raw.map((row) => {
-            const newRow: TableRow = {};
-            Object.keys(row).forEach(k => {
-              newRow[k.toLowerCase()] = row[k];
-            });
-            return newRow;
-          });
-        } else {
-          alert('지원하지 않는 파일 형식입니다.');
-        }
-        setTable(data);
-        setSelectedHeaders(getAllColumns(data));
-      } catch (e) {
-        alert('파일 파싱 오류: ' + (e as Error).message);
-      }
+  // 현재 탭의 기록에서 steps만큼 되돌리거나(> 0) 다시 실행(< 0)
+  const handleMoveHistory = (steps: number) => {
+    if (tab === 'loader') {
+      const moved = moveHistory(loaderHistory, snapshots.current.loader, steps);
+      if (!moved) return;
+      setLoaderHistory(moved.history);
+      restoreLoader(moved.snapshot);
+    } else {
+      const moved = moveHistory(mergeHistory, snapshots.current.merge, steps);
+      if (!moved) return;
+      setMergeHistory(moved.history);
+      restoreMerge(moved.snapshot);
+    }
+  };
+
+  // Ctrl+Z 되돌리기, Ctrl+Shift+Z / Ctrl+Y 다시 실행. 입력 중인 칸에서는 브라우저 기본 동작 유지
+  const historyShortcut = useRef(handleMoveHistory);
+  historyShortcut.current = handleMoveHistory;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') historyShortcut.current(e.shiftKey ? -1 : 1);
+      else if (key === 'y') historyShortcut.current(-1);
+      else return;
+      e.preventDefault();
     };
-    if (file.name.endsWith('.xlsx')) {
-      reader.readAsArrayBuffer(file);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // 가져오기 공통 처리 (target: 'loader' 또는 소스 id)
+  const updateSource = (id: string, patch: Partial<SourceTable>) => {
+    setSources(prev => prev.map(src => (src.id === id ? { ...src, ...patch } : src)));
+  };
+
+  const applyImportedRows = (
+    target: string,
+    typed: { rows: TableRow[]; schema: ColumnSchema; columnNames: ColumnNames; columnOrder: string[] },
+    patch: Partial<SourceTable> = {}
+  ) => {
+    if (target === 'loader') {
+      recordLoader('불러오기');
+      setTable(typed.rows);
+      setSchema(typed.schema);
+      setColumnNames(typed.columnNames);
+      setColumnOrder(typed.columnOrder);
+      setSelectedHeaders(resolveColumnOrder(typed.columnOrder, typed.rows));
     } else {
-      reader.readAsText(file);
+      recordMerge(`${sources.find(src => src.id === target)?.name ?? ''} 불러오기`);
+      updateSource(target, { ...typed, ...patch });
     }
   };
 
-  const handlePaste = () => {
-    try {
-      const data = parsePastedTable(pasteText);
-      setTable(data);
-      setSelectedHeaders(getAllColumns(data));
+  const setIssues = (target: string, issues: ImportIssue[]) => {
+    setImportIssues(prev => ({ ...prev, [target]: issues }));
+  };
+
+  // 붙여넣기는 바로 반영. 오류가 있으면 기존 테이블을 유지하고 문제만 표시
+  const handlePasteResult = (target: string, result: ParsedFile, patch: Partial<SourceTable> = {}) => {
+    setIssues(target, result.issues);
+    if (hasImportError(result.issues) || result.kind !== 'table') return false;
+    applyImportedRows(
+      target,
+      { rows: result.rows, schema: result.schema, columnNames: result.columnNames, columnOrder: result.columns },
+      patch
+    );
+    return true;
+  };
+
+  // 파일은 미리보기 대화상자에서 확인 후 handleApplyImport로 반영
+  const importFile = (target: string, file: File) => {
+    const reader = new FileReader();
+    reader.onload = ev => {
+      setPendingImport({ target, fileName: file.name, buffer: ev.target?.result as ArrayBuffer });
+    };
+    reader.onerror = () => setIssues(target, [{ level: 'error', message: `파일을 읽을 수 없습니다: ${file.name}` }]);
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleApplyImport = (result: ImportPreviewResult) => {
+    if (!pendingImport) return;
+    setIssues(pendingImport.target, result.issues);
+    applyImportedRows(pendingImport.target, {
+      rows: result.rows,
+      schema: result.schema,
+      columnNames: result.columnNames,
+      columnOrder: result.columns,
+    });
+    setPendingImport(null);
+  };
+
+  // TableLoader handlers
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importFile('loader', file);
+    // 취소 후 같은 파일을 다시 선택할 수 있도록 비움
+    e.target.value = '';
+  };
+
+  const parsePaste = (text: string) =>
+    runTask('붙여넣기 처리', { type: 'parse', source: textSource(text), options: { encoding: 'utf-8', delimiter: csvDelimiter }, schema: {} });
+
+  const handlePaste = async () => {
+    const result = await parsePaste(pasteText);
+    if (result && handlePasteResult('loader', result)) {
       setShowPaste(false);
       setPasteText('');
-    } catch (e) {
-      alert('붙여넣기 데이터 파싱 오류: ' + (e as Error).message);
     }
   };
 
@@ -225,180 +427,226 @@ function App() {
   };
 
   // TableMergeManager handlers
-  const handleFile1 = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleSourceFile = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = ev => {
-      let data: TableRow[] = [];
-      try {
-        if (file.name.endsWith('.json')) {
-          const arr = JSON.parse(ev.target?.result as string) as TableRow[];
-          data = arr.map((row) => {
-            const newRow: TableRow = {};
-            Object.keys(row).forEach(k => {
-              newRow[k.toLowerCase()] = row[k];
-            });
-            return newRow;
-          });
-        } else if (file.name.endsWith('.csv')) {
-          data = parseCSV(ev.target?.result as string);
-        } else if (file.name.endsWith('.xlsx')) {
-          const arr = new Uint8Array(ev.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(arr, { type: 'array' });
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const raw = XLSX.utils.sheet_to_json(sheet, { defval: '' }) as TableRow[];
-          data = raw.map((row) => {
-            const newRow: TableRow = {};
-            Object.keys(row).forEach(k => {
-              newRow[k.toLowerCase()] = row[k];
-            });
-            return newRow;
-          });
-        } else {
-          alert('지원하지 않는 파일 형식입니다.');
-        }
-        setTable1(data);
-      } catch (e) {
-        alert('파일 파싱 오류: ' + (e as Error).message);
-      }
-    };
-    if (file.name.endsWith('.xlsx')) {
-      reader.readAsArrayBuffer(file);
-    } else {
-      reader.readAsText(file);
-    }
+    if (file) importFile(id, file);
+    e.target.value = '';
   };
 
-  const handleFile2 = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = ev => {
-      let data: TableRow[] = [];
-      try {
-        if (file.name.endsWith('.json')) {
-          const arr = JSON.parse(ev.target?.result as string) as TableRow[];
-          data = arr.map((row) => {
-            const newRow: TableRow = {};
-            Object.keys(row).forEach(k => {
-              newRow[k.toLowerCase()] = row[k];
-            });
-            return newRow;
-          });
-        } else if (file.name.endsWith('.csv')) {
-          data = parseCSV(ev.target?.result as string);
-        } else if (file.name.endsWith('.xlsx')) {
-          const arr = new Uint8Array(ev.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(arr, { type: 'array' });
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const raw = XLSX.utils.sheet_to_json(sheet, { defval: '' }) as TableRow[];
-          data = raw.map((row) => {
-            const newRow: TableRow = {};
-            Object.keys(row).forEach(k => {
-              newRow[k.toLowerCase()] = row[k];
-            });
-            return newRow;
-          });
-        } else {
-          alert('지원하지 않는 파일 형식입니다.');
-        }
-        setTable2(data);
-      } catch (e) {
-        alert('파일 파싱 오류: ' + (e as Error).message);
-      }
-    };
-    if (file.name.endsWith('.xlsx')) {
-      reader.readAsArrayBuffer(file);
-    } else {
-      reader.readAsText(file);
-    }
+  const handleSourcePaste = async (id: string) => {
+    const source = sources.find(src => src.id === id);
+    if (!source) return;
+    const result = await parsePaste(source.pasteText);
+    if (result) handlePasteResult(id, result, { showPaste: false, pasteText: '' });
   };
 
-  const handlePaste1 = () => {
-    try {
-      const data = parsePastedTable(pasteText1);
-      setTable1(data);
-      setShowPaste1(false);
-      setPasteText1('');
-    } catch (e) {
-      alert('붙여넣기 데이터 파싱 오류: ' + (e as Error).message);
+  const handleAddSource = () => {
+    recordMerge('테이블 추가');
+    setSources(prev => [...prev, createSource(nextSourceName(prev))]);
+  };
+
+  const handleRemoveSource = (id: string) => {
+    if (sources.length <= 2) return alert('최소 두 개의 테이블이 필요합니다.');
+    recordMerge(`${sources.find(src => src.id === id)?.name ?? ''} 삭제`);
+    setSources(prev => prev.filter(src => src.id !== id));
+    setColumnMappings(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // 우선순위 변경: 위로(-1) / 아래로(+1)
+  const handleMoveSource = (id: string, direction: -1 | 1) => {
+    recordMerge('우선순위 변경');
+    setSources(prev => {
+      const idx = prev.findIndex(src => src.id === id);
+      const target = idx + direction;
+      if (idx < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
+    });
+  };
+
+  // 병합에 쓰는 소스. 첫 번째 소스는 비어 있어도 Main으로 남겨 리포트, 충돌 검사와 같은 소스를 Main으로 봄
+  const mergeInputs = sources.filter((src, i) => i === 0 || src.rows.length > 0);
+
+  // Main(첫 번째 소스)을 제외한 소스에 컬럼 매핑 적용
+  const getMappedSources = () =>
+    mergeInputs.map((src, i) => (i === 0 ? src : { ...src, rows: applyColumnMapping(src.rows, columnMappings[src.id] ?? {}) }));
+
+  // 매핑 후 소스 스키마를 우선순위대로 합친 병합 결과 스키마
+  const mergedSchema = mergeSchemas(
+    ...mergeInputs.map((src, i) => (i === 0 ? src.schema : applyColumnMappingToSchema(src.schema, columnMappings[src.id] ?? {})))
+  );
+
+  const getMergedColumnNames = () =>
+    mergeColumnNames(
+      ...mergeInputs.map((src, i) => (i === 0 ? src.columnNames : applyColumnMappingToNames(src.columnNames, columnMappings[src.id] ?? {})))
+    );
+
+  // 우선순위대로 각 소스의 컬럼 순서를 이어 붙인 병합 결과 순서
+  const getMergedColumnOrder = () =>
+    mergeColumnOrders(
+      ...getMappedSources().map((src, i) => {
+        const order = resolveColumnOrder(src.columnOrder, sources.find(s => s.id === src.id)?.rows ?? []);
+        return i === 0 ? order : applyColumnMappingToOrder(order, columnMappings[src.id] ?? {});
+      })
+    );
+
+  const runMerge = async (aliases: Record<string, Record<string, string>>) => {
+    const result = await runTask('병합', {
+      type: 'merge',
+      sources: getMappedSources().map(src => ({ name: src.name, rows: src.rows, keyAliases: aliases[src.id] })),
+      options: {
+        keys: mergeKeys,
+        joinType,
+        mode: mergeMode,
+        conflict: conflictOptions,
+        duplicates: duplicateStrategy,
+        keyMatch: keyMatchOptions,
+      },
+      schema: mergedSchema,
+    });
+    if (!result) return;
+    if (result.kind === 'duplicates') {
+      return alert('중복된 병합 키가 있습니다. 중복 처리 방식을 선택하세요.\n' + result.lines.join('\n'));
+    }
+    if (result.conflicts.length > 0) {
+      setPendingMerge(result);
+    } else {
+      recordMerge('병합');
+      setMergedColumnNames(getMergedColumnNames());
+      setMergedColumnOrder(getMergedColumnOrder());
+      setMergedTable(result.rows);
+      setMergedProvenance(result.provenance);
     }
   };
 
-  const handlePaste2 = () => {
-    try {
-      const data = parsePastedTable(pasteText2);
-      setTable2(data);
-      setShowPaste2(false);
-      setPasteText2('');
-    } catch (e) {
-      alert('붙여넣기 데이터 파싱 오류: ' + (e as Error).message);
+  const handleMerge = async () => {
+    if (mergeKeys.length === 0) return alert('병합 기준 컬럼을 선택하세요.');
+    const mapped = getMappedSources();
+    if (mapped[0].rows.length === 0) return alert(`Main Table(${mapped[0].name})에 데이터가 없습니다. 데이터를 불러오거나 소스 순서를 바꾸세요.`);
+    if (mapped.length < 2) return alert('두 개 이상의 테이블에 데이터가 필요합니다.');
+    const collisions = mergeInputs.slice(1).flatMap(src =>
+      Object.entries(findMappingCollisions(getAllColumns(src.rows), columnMappings[src.id] ?? {}))
+        .map(([target, cols]) => `${src.name}: ${target} ← ${cols.join(', ')}`)
+    );
+    if (collisions.length > 0) return alert('컬럼 매핑 후 이름이 겹치는 컬럼이 있습니다. 매핑을 수정하세요.\n' + collisions.join('\n'));
+    if (keyMatchOptions.fuzzy) {
+      const [main, ...rest] = mapped;
+      const matches = await runTask('퍼지 매칭 후보 검색', {
+        type: 'fuzzy',
+        main: main.rows,
+        sources: rest.map(src => ({ id: src.id, name: src.name, rows: src.rows })),
+        keys: mergeKeys,
+        keyMatch: keyMatchOptions,
+      });
+      if (!matches) return;
+      if (matches.length > 0) return setPendingFuzzy(matches);
     }
+    runMerge({});
   };
 
-  const handleMerge = () => {
-    if (!mergeKey) return alert('병합 기준 컬럼을 입력하세요.');
-    if (table1.length === 0 || table2.length === 0) return alert('두 테이블 모두 데이터가 필요합니다.');
-    const merged: TableRow[] = [];
-    const key = mergeKey.toLowerCase();
-    const table2Map = new Map(table2.map(row => [row[key], row]));
-    const usedKeys = new Set();
-    // 1. table1 기준 병합
-    table1.forEach(row1 => {
-      const row2 = table2Map.get(row1[key]);
-      if (row2) {
-        const mergedRow: TableRow = { ...row1 };
-        Object.keys(row2).forEach(col => {
-          // row2의 값이 null/undefined/''가 아니면 덮어씀
-          if (row2[col] !== undefined && row2[col] !== null && row2[col] !== '') {
-            mergedRow[col] = row2[col];
-          }
-        });
-        merged.push(mergedRow);
-        usedKeys.add(row1[key]);
-      } else {
-        merged.push({ ...row1 });
-      }
+  const handleApplyFuzzy = (accepted: FuzzyMatch[]) => {
+    setPendingFuzzy(null);
+    const aliases: Record<string, Record<string, string>> = {};
+    accepted.forEach(m => {
+      const sourceId = m.sourceId ?? '';
+      aliases[sourceId] = { ...aliases[sourceId], [m.additionalKey]: m.mainKey };
     });
-    // 2. table2에만 있는 row 추가
-    table2.forEach(row2 => {
-      if (!usedKeys.has(row2[key])) {
-        merged.push({ ...row2 });
-      }
-    });
-    setMergedTable(merged);
+    runMerge(aliases);
+  };
+
+  const handleApplyConflicts = (conflicts: MergeConflict[]) => {
+    if (!pendingMerge) return;
+    recordMerge('병합');
+    setMergedColumnNames(getMergedColumnNames());
+    setMergedColumnOrder(getMergedColumnOrder());
+    setMergedTable(applySchema(applyConflictResolutions(pendingMerge.rows, conflicts), mergedSchema));
+    setMergedProvenance(applyConflictProvenance(pendingMerge.provenance, conflicts));
+    setPendingMerge(null);
+  };
+
+  // 내보낼 병합 결과 (컬럼 순서, 헤더 이름 옵션 적용)
+  const mergedExportTable = (): ExportTable => ({
+    rows: mergedTable,
+    columns: resolveColumnOrder(mergedColumnOrder, mergedTable),
+    names: exportOriginalHeaders ? mergedColumnNames : {},
+    schema: mergedSchema,
+  });
+
+  const mergeReportSource = (): ReportSource => ({ provenance: mergedProvenance, mainName: mergeInputs[0]?.name ?? '', keys: mergeKeys });
+
+  // Worker에서 파일 내용을 만든 뒤 내려받음
+  const exportFile = async (label: string, job: ExportTask, filename: string) => {
+    const file = await runTask(label, job);
+    if (file) downloadFile(file, filename);
   };
 
   const handleExport = (type: 'json' | 'csv') => {
     if (mergedTable.length === 0) return alert('병합 결과가 없습니다.');
-    const columns = getAllColumns(mergedTable);
-    let content = '';
-    let filename = '';
     if (type === 'json') {
-      content = JSON.stringify(mergedTable, null, 2);
-      filename = 'merged.json';
+      exportFile('JSON 저장', { type: 'export', format: 'json', table: mergedExportTable(), nested: exportNestedJson }, 'merged.json');
     } else {
-      content = toCSV(mergedTable, columns);
-      filename = 'merged.csv';
+      const { delimiter, extension } = resolveExportDelimiter(csvDelimiter);
+      exportFile(
+        'CSV 저장',
+        { type: 'export', format: 'csv', table: mergedExportTable(), delimiter, encoding: exportEncoding },
+        `merged.${extension}`
+      );
     }
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
   };
 
   const handleExportExcel = () => {
     if (mergedTable.length === 0) return alert('병합 결과가 없습니다.');
-    const ws = XLSX.utils.json_to_sheet(mergedTable);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Merged');
-    XLSX.writeFile(wb, 'merged.xlsx');
+    exportFile('엑셀 저장', { type: 'export', format: 'xlsx', table: mergedExportTable(), sheetName: 'Merged' }, 'merged.xlsx');
+  };
+
+  // 병합 결과를 SQLite 테이블로 저장하고 데이터베이스 파일을 내려받음
+  const handleExportSqlite = async (target: SqliteExportTarget) => {
+    if (mergedTable.length === 0) return alert('병합 결과가 없습니다.');
+    const result = await runTask('SQLite 저장', {
+      type: 'sqlite',
+      table: mergedExportTable(),
+      buffer: target.file?.buffer ?? null,
+      target: target.table,
+      mode: target.mode,
+      keys: mergeKeys,
+    });
+    if (!result) return;
+    downloadFile(result.file, target.file?.name ?? 'merged.sqlite');
+    const skipped = result.skippedColumns.length > 0
+      ? `\n대상 테이블에 없어 저장하지 않은 컬럼: ${result.skippedColumns.map(col => displayName(mergedColumnNames, col)).join(', ')}`
+      : '';
+    alert(`${target.table} 테이블: 추가 ${result.inserted}행, 갱신 ${result.updated}행${skipped}`);
+  };
+
+  // 병합 결과를 SQL 스크립트로 내려받음 (변경분은 병합 리포트 기준)
+  const handleExportSql = (options: SqlScriptOptions) => {
+    if (mergedTable.length === 0) return alert('병합 결과가 없습니다.');
+    if (options.mode !== 'insert' && !mergedProvenance) return alert(MISSING_PROVENANCE_MESSAGE);
+    exportFile(
+      'SQL 스크립트 생성',
+      { type: 'export', format: 'sql', table: mergedExportTable(), report: mergeReportSource(), options },
+      `${options.table}.${options.dialect}.sql`
+    );
+  };
+
+  // 병합 리포트 내보내기: CSV는 요약/컬럼별/변경 목록 구역, 엑셀은 요약/컬럼별/변경 목록/병합 데이터 시트
+  const handleExportReport = (type: 'csv' | 'xlsx') => {
+    if (mergedTable.length === 0) return alert('병합 결과가 없습니다.');
+    if (!mergedProvenance) return alert(MISSING_PROVENANCE_MESSAGE);
+    if (type === 'csv') {
+      const { delimiter, extension } = resolveExportDelimiter(csvDelimiter);
+      exportFile(
+        '리포트 저장',
+        { type: 'export', format: 'reportCsv', table: mergedExportTable(), report: mergeReportSource(), delimiter, encoding: exportEncoding },
+        `merge_report.${extension}`
+      );
+    } else {
+      exportFile('리포트 저장', { type: 'export', format: 'reportXlsx', table: mergedExportTable(), report: mergeReportSource() }, 'merge_report.xlsx');
+    }
   };
 
   return (
@@ -412,6 +660,12 @@ function App() {
       </header>
       {/* Tabs */}
       <div className="container mx-auto px-4">
+        {storageError && (
+          <div className="mb-2 rounded-lg border border-yellow-400 bg-yellow-50 p-3 text-sm text-yellow-800">{storageError}</div>
+        )}
+        <div className="flex justify-end mb-2">
+          <HistoryPanel history={tab === 'loader' ? loaderHistory : mergeHistory} onMove={handleMoveHistory} />
+        </div>
         <Tabs
           tabs={[
             { label: 'DB Merge Manager', value: 'merge' },
@@ -422,31 +676,64 @@ function App() {
         >
           <div style={{ display: tab === 'merge' ? 'block' : 'none' }}>
             <TableMergeManager
-              table1={table1}
-              setTable1={setTable1}
-              table2={table2}
-              setTable2={setTable2}
+              sources={sources}
+              setSources={setSources}
               mergedTable={mergedTable}
               setMergedTable={setMergedTable}
-              mergeKey={mergeKey}
-              setMergeKey={setMergeKey}
-              showPaste1={showPaste1}
-              setShowPaste1={setShowPaste1}
-              showPaste2={showPaste2}
-              setShowPaste2={setShowPaste2}
-              pasteText1={pasteText1}
-              setPasteText1={setPasteText1}
-              pasteText2={pasteText2}
-              setPasteText2={setPasteText2}
-              fileInput1={fileInput1}
-              fileInput2={fileInput2}
-              handleFile1={handleFile1}
-              handleFile2={handleFile2}
-              handlePaste1={handlePaste1}
-              handlePaste2={handlePaste2}
+              mergedProvenance={mergedProvenance}
+              mergedColumnNames={mergedColumnNames}
+              setMergedColumnNames={setMergedColumnNames}
+              mergedColumnOrder={mergedColumnOrder}
+              setMergedColumnOrder={setMergedColumnOrder}
+              setMergedProvenance={setMergedProvenance}
+              mergeKeys={mergeKeys}
+              setMergeKeys={setMergeKeys}
+              joinType={joinType}
+              setJoinType={setJoinType}
+              mergeMode={mergeMode}
+              setMergeMode={setMergeMode}
+              conflictOptions={conflictOptions}
+              setConflictOptions={setConflictOptions}
+              duplicateStrategy={duplicateStrategy}
+              setDuplicateStrategy={setDuplicateStrategy}
+              keyMatchOptions={keyMatchOptions}
+              setKeyMatchOptions={setKeyMatchOptions}
+              columnMappings={columnMappings}
+              csvDelimiter={csvDelimiter}
+              setCsvDelimiter={setCsvDelimiter}
+              importEncoding={importEncoding}
+              setImportEncoding={setImportEncoding}
+              exportEncoding={exportEncoding}
+              setExportEncoding={setExportEncoding}
+              exportOriginalHeaders={exportOriginalHeaders}
+              setExportOriginalHeaders={setExportOriginalHeaders}
+              exportNestedJson={exportNestedJson}
+              setExportNestedJson={setExportNestedJson}
+              importIssues={importIssues}
+              handleDismissIssues={id => setIssues(id, [])}
+              mergedSchema={mergedSchema}
+              setColumnMappings={setColumnMappings}
+              updateSource={updateSource}
+              handleSourceFile={handleSourceFile}
+              handleSourcePaste={handleSourcePaste}
+              handleAddSource={handleAddSource}
+              handleRemoveSource={handleRemoveSource}
+              handleMoveSource={handleMoveSource}
               handleMerge={handleMerge}
+              pendingFuzzy={pendingFuzzy}
+              handleApplyFuzzy={handleApplyFuzzy}
+              handleCancelFuzzy={() => setPendingFuzzy(null)}
+              pendingMerge={pendingMerge}
+              handleApplyConflicts={handleApplyConflicts}
+              handleCancelConflicts={() => setPendingMerge(null)}
               handleExport={handleExport}
               handleExportExcel={handleExportExcel}
+              handleExportReport={handleExportReport}
+              handleExportSqlite={handleExportSqlite}
+              handleExportSql={handleExportSql}
+              task={task}
+              handleCancelTask={handleCancelTask}
+              recordHistory={recordMerge}
             />
           </div>
           <div style={{ display: tab === 'loader' ? 'block' : 'none' }}>
@@ -463,10 +750,41 @@ function App() {
               handleFile={handleFile}
               handlePaste={handlePaste}
               handleHeaderToggle={handleHeaderToggle}
+              schema={schema}
+              setSchema={setSchema}
+              columnNames={columnNames}
+              setColumnNames={setColumnNames}
+              columnOrder={columnOrder}
+              setColumnOrder={setColumnOrder}
+              csvDelimiter={csvDelimiter}
+              setCsvDelimiter={setCsvDelimiter}
+              importEncoding={importEncoding}
+              setImportEncoding={setImportEncoding}
+              exportEncoding={exportEncoding}
+              setExportEncoding={setExportEncoding}
+              exportOriginalHeaders={exportOriginalHeaders}
+              setExportOriginalHeaders={setExportOriginalHeaders}
+              exportNestedJson={exportNestedJson}
+              setExportNestedJson={setExportNestedJson}
+              importIssues={importIssues.loader ?? []}
+              handleDismissIssues={() => setIssues('loader', [])}
+              exportFile={exportFile}
+              task={task}
+              handleCancelTask={handleCancelTask}
+              recordHistory={recordLoader}
             />
           </div>
         </Tabs>
       </div>
+      <ImportPreviewDialog
+        open={pendingImport !== null}
+        fileName={pendingImport?.fileName ?? ''}
+        buffer={pendingImport?.buffer ?? null}
+        defaultEncoding={importEncoding}
+        defaultDelimiter={csvDelimiter}
+        onApply={handleApplyImport}
+        onCancel={() => setPendingImport(null)}
+      />
     </div>
   );
 }
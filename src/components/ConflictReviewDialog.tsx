@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import VirtualGrid from '@/components/VirtualGrid';
+import { displayName, type ColumnNames } from '@/lib/columnNames';
+import { getConflictValue, type ConflictChoice, type MergeConflict } from '@/lib/merge';
+import { convertInput, type ColumnSchema } from '@/lib/schema';
+
+interface ConflictReviewDialogProps {
+  open: boolean;
+  conflicts: MergeConflict[];
+  onApply: (conflicts: MergeConflict[]) => void;
+  onCancel: () => void;
+  schema?: ColumnSchema;
+  // 충돌 컬럼(정규화 키)의 원래 컬럼명
+  columnNames?: ColumnNames;
+}
+
+const formatValue = (value: MergeConflict['mainValue']) =>
+  value !== undefined && value !== null ? String(value) : '';
+
+const NO_NAMES: ColumnNames = {};
+
+// 충돌 목록 컬럼 (VirtualGrid의 컬럼 키 → 헤더)
+const LIST_HEADERS: ColumnNames = {
+  key: '기준 키',
+  column: '컬럼',
+  source: '소스',
+  main: 'Main',
+  additional: 'Additional',
+  custom: '직접 입력',
+  value: '적용 값',
+};
+const LIST_COLUMNS = Object.keys(LIST_HEADERS);
+
+const ConflictReviewDialog: React.FC<ConflictReviewDialogProps> = ({ open, conflicts, onApply, onCancel, schema = {}, columnNames = NO_NAMES }) => {
+  const [items, setItems] = useState<MergeConflict[]>(conflicts);
+
+  useEffect(() => {
+    setItems(conflicts);
+  }, [conflicts]);
+
+  const columns = useMemo(() => Array.from(new Set(items.map(c => c.column))), [items]);
+  // 컬럼 너비 추정에 쓰는 표시 값 (직접 입력 칸은 입력창 너비)
+  const listRows = useMemo(
+    () => items.map(c => ({
+      key: c.keyLabel,
+      column: displayName(columnNames, c.column),
+      source: c.source ?? '',
+      main: `○ ${formatValue(c.mainValue)}`,
+      additional: `○ ${formatValue(c.additionalValue)}`,
+      custom: 'x'.repeat(14),
+      value: formatValue(getConflictValue(c)),
+    })),
+    [items, columnNames]
+  );
+
+  const setChoice = (idx: number, choice: ConflictChoice) => {
+    setItems(prev => prev.map((c, i) => (i === idx ? { ...c, choice } : c)));
+  };
+
+  const setCustomValue = (idx: number, value: string) => {
+    setItems(prev => prev.map((c, i) => (i === idx ? { ...c, choice: 'custom', customValue: value } : c)));
+  };
+
+  // 직접 입력값은 적용 시점에 컬럼 타입으로 변환
+  const handleApply = () => {
+    onApply(items.map(c => (c.choice === 'custom' ? { ...c, customValue: convertInput(formatValue(c.customValue), schema[c.column]) } : c)));
+  };
+
+  // 컬럼 단위 일괄 선택
+  const setColumnChoice = (column: string, choice: ConflictChoice) => {
+    setItems(prev => prev.map(c => (c.column === column ? { ...c, choice } : c)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={v => { if (!v) onCancel(); }}>
+      <DialogContent className="max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>충돌 검토</DialogTitle>
+          <DialogDescription>
+            Main/Additional 값이 서로 다른 셀 {items.length}개가 있습니다. 사용할 값을 선택한 뒤 적용하세요.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-1 max-h-40 overflow-y-auto">
+          {columns.map(col => (
+            <div key={col} className="flex items-center gap-2">
+              <span className="text-xs font-mono w-40 truncate" title={col}>{displayName(columnNames, col)}</span>
+              <Button type="button" size="sm" variant="outline" onClick={() => setColumnChoice(col, 'main')}>Main 전체 적용</Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setColumnChoice(col, 'additional')}>Additional 전체 적용</Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setColumnChoice(col, 'policy')}>정책값으로</Button>
+            </div>
+          ))}
+        </div>
+        <VirtualGrid
+          rows={listRows}
+          columns={LIST_COLUMNS}
+          names={LIST_HEADERS}
+          maxHeight={480}
+          renderHeader={col => LIST_HEADERS[col]}
+          renderCell={(i, col) => {
+            const c = items[i];
+            switch (col) {
+              case 'main':
+              case 'additional':
+                return (
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="radio" name={`conflict-${i}`} checked={c.choice === col} onChange={() => setChoice(i, col)} className="accent-primary" />
+                    {formatValue(col === 'main' ? c.mainValue : c.additionalValue)}
+                  </label>
+                );
+              case 'custom':
+                return (
+                  <input
+                    className="border rounded px-1 py-0.5 text-sm w-full"
+                    value={c.choice === 'custom' ? formatValue(c.customValue) : ''}
+                    placeholder={formatValue(c.policyValue)}
+                    onChange={e => setCustomValue(i, e.target.value)}
+                  />
+                );
+              default:
+                return listRows[i][col as keyof (typeof listRows)[number]];
+            }
+          }}
+          cellProps={(i, col) => {
+            if (col === 'key' || col === 'column') return { className: 'font-mono' };
+            if (col === 'value') return { className: items[i].choice === 'policy' ? 'text-muted-foreground' : 'font-semibold' };
+            return {};
+          }}
+        />
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>취소</Button>
+          <Button type="button" variant="default" onClick={handleApply}>적용</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConflictReviewDialog;
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef } from 'react';
+
+// null은 구분선
+export type ContextMenuItem = { label: string; onSelect: () => void; disabled?: boolean } | null;
+
+interface ContextMenuProps {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+// 마우스 위치에 띄우는 메뉴. 바깥을 누르거나 Esc, 스크롤 시 닫힘
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handlePointer = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handlePointer);
+    document.addEventListener('keydown', handleKey);
+    window.addEventListener('scroll', onClose, true);
+    window.addEventListener('resize', onClose);
+    return () => {
+      document.removeEventListener('mousedown', handlePointer);
+      document.removeEventListener('keydown', handleKey);
+      window.removeEventListener('scroll', onClose, true);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  // 화면 밖으로 나가지 않도록 위치 보정
+  const left = Math.min(x, window.innerWidth - 200);
+  const top = Math.min(y, window.innerHeight - items.length * 32 - 8);
+
+  return (
+    <div
+      ref={ref}
+      role="menu"
+      className="fixed z-50 min-w-44 rounded-lg border bg-background p-1 text-sm shadow-md"
+      style={{ left: Math.max(0, left), top: Math.max(0, top) }}
+      onContextMenu={e => e.preventDefault()}
+    >
+      {items.map((item, i) =>
+        item ? (
+          <button
+            key={i}
+            type="button"
+            role="menuitem"
+            disabled={item.disabled}
+            className="block w-full rounded px-2 py-1 text-left hover:bg-muted disabled:pointer-events-none disabled:opacity-50"
+            onClick={() => {
+              onClose();
+              item.onSelect();
+            }}
+          >
+            {item.label}
+          </button>
+        ) : (
+          <div key={i} className="my-1 border-t" />
+        )
+      )}
+    </div>
+  );
+};
+
+export default ContextMenu;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useRef } from 'react';
+import VirtualGrid from '@/components/VirtualGrid';
+import { displayName, type ColumnNames } from '@/lib/columnNames';
+import { toTSV, parseTSV } from '@/lib/csv';
+import { rangeValues } from '@/lib/tableOps';
+import {
+  cellRange,
+  clampCell,
+  clampRange,
+  inRange,
+  rangeBounds,
+  type CellPosition,
+  type CellRange,
+  type RangeBounds,
+} from '@/lib/cellRange';
+import type { CellProvenance } from '@/lib/merge';
+import type { TableRow } from '@/lib/table';
+
+interface EditableGridProps {
+  rows: TableRow[];
+  columns: string[];
+  names: ColumnNames;
+  // 표시할 셀 출처 (병합 결과에서만 사용)
+  provenanceOf?: (rowIdx: number, col: string) => CellProvenance | undefined;
+  onCellChange: (rowIdx: number, col: string, value: string) => void;
+  onHeaderChange: (col: string, name: string) => void;
+  onColumnMove: (col: string, target: string) => void;
+  onClearRange: (bounds: RangeBounds) => void;
+  // 왼쪽 위 셀부터 붙여넣을 값 블록
+  onPaste: (top: number, left: number, block: string[][]) => void;
+  // rowIdx가 없으면 헤더에서 연 메뉴
+  onContextMenu: (x: number, y: number, col: string, rowIdx?: number) => void;
+}
+
+const EMPTY_BOUNDS: RangeBounds = { top: 0, left: 0, bottom: 0, right: 0 };
+
+function formatProvenance(cell: CellProvenance): string {
+  const text = `출처: ${cell.source}`;
+  return 'overwritten' in cell ? `${text} (이전 값: ${cell.overwritten ?? ''})` : text;
+}
+
+// 셀 선택, 인라인 편집, 복사/붙여넣기를 처리하는 표.
+// 선택과 편집 상태는 표마다 따로 두어 드래그 선택이 다른 표나 상위 화면을 다시 그리지 않음
+const EditableGrid: React.FC<EditableGridProps> = ({
+  rows,
+  columns,
+  names,
+  provenanceOf,
+  onCellChange,
+  onHeaderChange,
+  onColumnMove,
+  onClearRange,
+  onPaste,
+  onContextMenu,
+}) => {
+  const [selection, setSelection] = useState<CellRange | null>(null);
+  // 마우스를 누른 채 범위를 늘리는 중
+  const selecting = useRef(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [editingCell, setEditingCell] = useState<{ rowIdx: number; col: string } | null>(null);
+  const [editingValue, setEditingValue] = useState<string>('');
+  const [editingHeader, setEditingHeader] = useState<{ col: string; colIdx: number } | null>(null);
+  const [editingHeaderValue, setEditingHeaderValue] = useState<string>('');
+  // 헤더 드래그로 옮기는 중인 컬럼
+  const [draggingHeader, setDraggingHeader] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stopSelecting = () => {
+      selecting.current = false;
+    };
+    document.addEventListener('mouseup', stopSelecting);
+    return () => document.removeEventListener('mouseup', stopSelecting);
+  }, []);
+
+  // 셀 편집을 마치면 표로 포커스를 돌려 키보드 조작을 이어감
+  useEffect(() => {
+    if (!editingCell && selection && document.activeElement === document.body) {
+      gridRef.current?.focus({ preventScroll: true });
+    }
+  }, [editingCell, selection]);
+
+  const range = selection && clampRange(selection, rows.length, columns.length);
+  const selected = range && rangeBounds(range);
+  const isEditingCell = (rowIdx: number, col: string) => editingCell?.rowIdx === rowIdx && editingCell.col === col;
+
+  // value를 주면 기존 값 대신 그 값으로 편집 시작 (셀에서 바로 타이핑한 경우)
+  const startEditing = (cell: CellPosition, value?: string) => {
+    setSelection(cellRange(cell));
+    setEditingCell({ rowIdx: cell.row, col: columns[cell.col] });
+    setEditingValue(value ?? String(rows[cell.row]?.[columns[cell.col]] ?? ''));
+  };
+
+  // 표가 포커스된 상태의 키 입력 (셀 편집 중인 입력창의 키는 무시)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || rows.length === 0 || columns.length === 0) return;
+    const arrows: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] };
+    if (!range) {
+      // Tab으로 표에 들어온 경우 방향키로 첫 셀부터 선택
+      if (e.key in arrows) {
+        e.preventDefault();
+        setSelection(cellRange({ row: 0, col: 0 }));
+      }
+      return;
+    }
+    const { focus } = range;
+    const ctrl = e.ctrlKey || e.metaKey;
+    const moveTo = (cell: CellPosition) => clampCell(cell, rows.length, columns.length);
+
+    if (e.key in arrows) {
+      // Ctrl+방향키는 표 끝으로, Shift는 범위 확장
+      const [dr, dc] = arrows[e.key];
+      const step = ctrl ? Math.max(rows.length, columns.length) : 1;
+      const next = moveTo({ row: focus.row + dr * step, col: focus.col + dc * step });
+      setSelection({ anchor: e.shiftKey ? range.anchor : next, focus: next });
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      const delta = e.shiftKey ? -1 : 1;
+      const next = moveTo(e.key === 'Tab' ? { row: focus.row, col: focus.col + delta } : { row: focus.row + delta, col: focus.col });
+      // 첫/마지막 컬럼에서 Tab은 표 밖으로 포커스 이동
+      if (e.key === 'Tab' && next.col === focus.col) return;
+      setSelection(cellRange(next));
+    } else if (e.key === 'F2') {
+      startEditing(focus);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      onClearRange(rangeBounds(range));
+    } else if (ctrl && e.key.toLowerCase() === 'a') {
+      setSelection({ anchor: { row: 0, col: 0 }, focus: { row: rows.length - 1, col: columns.length - 1 } });
+    } else if (e.key.length === 1 && !ctrl && !e.altKey) {
+      startEditing(focus, e.key);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  // 선택 범위를 TSV로 복사 (스프레드시트에 그대로 붙여넣을 수 있음)
+  const handleCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || !selected) return;
+    e.clipboardData.setData('text/plain', toTSV(rangeValues(rows, columns, selected)));
+    e.preventDefault();
+  };
+
+  // 선택 범위의 왼쪽 위부터 TSV를 붙여넣음. 빈 표는 선택할 셀이 없으므로 첫 셀부터
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const bounds = rows.length === 0 ? EMPTY_BOUNDS : selected;
+    if (e.target !== e.currentTarget || !bounds) return;
+    e.preventDefault();
+    const text = e.clipboardData.getData('text/plain');
+    if (!text) return;
+    let block = parseTSV(text);
+    // 값 하나를 여러 칸에 붙여넣으면 선택 범위를 모두 채움
+    if (block.length === 1 && block[0].length === 1) {
+      block = Array.from({ length: bounds.bottom - bounds.top + 1 }, () => Array(bounds.right - bounds.left + 1).fill(block[0][0]));
+    }
+    const width = Math.max(...block.map(record => record.length));
+    onPaste(bounds.top, bounds.left, block);
+    setSelection({ anchor: { row: bounds.top, col: bounds.left }, focus: { row: bounds.top + block.length - 1, col: bounds.left + width - 1 } });
+  };
+
+  return (
+    <>
+      <VirtualGrid
+        ref={gridRef}
+        rows={rows}
+        columns={columns}
+        names={names}
+        activeCell={range?.focus}
+        containerProps={{
+          tabIndex: 0,
+          className: 'outline-none focus:ring-2 focus:ring-primary/40',
+          onKeyDown: handleKeyDown,
+          onCopy: handleCopy,
+          onPaste: handlePaste,
+        }}
+        headerProps={(col, idx) => {
+          const isEditingHeader = editingHeader?.colIdx === idx;
+          return {
+            draggable: !isEditingHeader,
+            onDragStart: () => setDraggingHeader(col),
+            onDragOver: e => e.preventDefault(),
+            onDrop: () => {
+              if (draggingHeader && draggingHeader !== col) onColumnMove(draggingHeader, col);
+              setDraggingHeader(null);
+            },
+            onDragEnd: () => setDraggingHeader(null),
+            onContextMenu: e => {
+              e.preventDefault();
+              onContextMenu(e.clientX, e.clientY, col);
+            },
+            onClick: e => {
+              e.stopPropagation();
+              if (!isEditingHeader) {
+                setEditingHeader({ col, colIdx: idx });
+                setEditingHeaderValue(displayName(names, col));
+              }
+            },
+            className: 'cursor-pointer' + (draggingHeader === col ? ' opacity-50' : ''),
+          };
+        }}
+        renderHeader={(col, idx) =>
+          editingHeader?.colIdx === idx ? (
+            <input
+              className="w-full bg-yellow-50 border rounded px-1 py-0.5 text-sm"
+              value={editingHeaderValue}
+              autoFocus
+              placeholder="헤더명"
+              onChange={e => setEditingHeaderValue(e.target.value)}
+              onBlur={() => {
+                onHeaderChange(col, editingHeaderValue);
+                setEditingHeader(null);
+              }}
+              onKeyDown={e => {
+                // 저장은 onBlur에서 한 번만 (기록이 두 번 남지 않도록)
+                if (e.key === 'Enter') {
+                  e.currentTarget.blur();
+                } else if (e.key === 'Escape') {
+                  setEditingHeader(null);
+                }
+              }}
+            />
+          ) : (
+            displayName(names, col)
+          )
+        }
+        cellProps={(i, col, c) => {
+          const provenance = provenanceOf?.(i, col);
+          // 다른 소스 값으로 기존 값이 바뀐 셀은 노란색, 새로 추가된 행/컬럼 값은 녹색. 선택한 셀은 파란색
+          const highlight = selected && inRange(selected, i, c)
+            ? ' bg-blue-100'
+            : provenance ? ('overwritten' in provenance ? ' bg-yellow-200' : ' bg-green-200') : '';
+          const isFocus = range?.focus.row === i && range.focus.col === c;
+          return {
+            className: 'cursor-cell select-none' + highlight + (isFocus ? ' outline outline-2 -outline-offset-2 outline-blue-500' : ''),
+            title: provenance ? formatProvenance(provenance) : undefined,
+            // 클릭은 선택, Shift+클릭과 드래그는 범위 선택, 더블클릭은 편집
+            onMouseDown: e => {
+              if (e.button !== 0 || isEditingCell(i, col)) return;
+              const cell = { row: i, col: c };
+              setSelection(prev => (e.shiftKey && prev ? { ...prev, focus: cell } : cellRange(cell)));
+              selecting.current = true;
+            },
+            onMouseEnter: () => {
+              if (!selecting.current) return;
+              setSelection(prev => (prev ? { ...prev, focus: { row: i, col: c } } : prev));
+            },
+            onDoubleClick: () => {
+              if (!isEditingCell(i, col)) startEditing({ row: i, col: c });
+            },
+            onContextMenu: e => {
+              e.preventDefault();
+              onContextMenu(e.clientX, e.clientY, col, i);
+            },
+          };
+        }}
+        renderCell={(i, col, c) => {
+          const cellValue = rows[i][col];
+          // 인라인 에디팅 렌더링
+          return isEditingCell(i, col) ? (
+            <input
+              className="w-full bg-yellow-50 border rounded px-1 py-0.5 text-sm"
+              value={editingValue}
+              autoFocus
+              placeholder="값 입력"
+              onChange={e => setEditingValue(e.target.value)}
+              onFocus={e => {
+                const end = e.currentTarget.value.length;
+                e.currentTarget.setSelectionRange(end, end);
+              }}
+              onBlur={() => {
+                onCellChange(i, col, editingValue);
+                setEditingCell(null);
+              }}
+              onKeyDown={e => {
+                // Enter는 아래, Tab은 오른쪽 셀로 이동 (Shift는 반대 방향). 저장은 onBlur에서
+                if (e.key === 'Enter' || e.key === 'Tab') {
+                  e.preventDefault();
+                  const delta = e.shiftKey ? -1 : 1;
+                  const next = e.key === 'Enter' ? { row: i + delta, col: c } : { row: i, col: c + delta };
+                  setSelection(cellRange(clampCell(next, rows.length, columns.length)));
+                  e.currentTarget.blur();
+                } else if (e.key === 'Escape') {
+                  setEditingCell(null);
+                }
+              }}
+            />
+          ) : (
+            cellValue !== undefined && cellValue !== null ? String(cellValue) : ''
+          );
+        }}
+      />
+      {rows.length === 0 && (
+        <p className="text-center text-muted-foreground py-4">데이터가 없습니다. 위 표를 클릭한 뒤 복사한 표를 Ctrl+V로 붙여넣으세요.</p>
+      )}
+    </>
+  );
+};
+
+export default EditableGrid;
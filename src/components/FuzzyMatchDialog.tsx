@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { FuzzyMatch } from '@/lib/merge';
+
+interface FuzzyMatchDialogProps {
+  open: boolean;
+  matches: FuzzyMatch[];
+  onApply: (accepted: FuzzyMatch[]) => void;
+  onCancel: () => void;
+}
+
+const FuzzyMatchDialog: React.FC<FuzzyMatchDialogProps> = ({ open, matches, onApply, onCancel }) => {
+  const [accepted, setAccepted] = useState<boolean[]>(() => matches.map(() => true));
+
+  useEffect(() => {
+    setAccepted(matches.map(() => true));
+  }, [matches]);
+
+  const toggle = (idx: number) => {
+    setAccepted(prev => prev.map((v, i) => (i === idx ? !v : v)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={v => { if (!v) onCancel(); }}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>유사 키 매칭 확인</DialogTitle>
+          <DialogDescription>
+            정확히 일치하지 않지만 유사한 키 {matches.length}쌍을 찾았습니다. 같은 행으로 병합할 쌍을 선택하세요.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={() => setAccepted(matches.map(() => true))}>전체 선택</Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => setAccepted(matches.map(() => false))}>전체 해제</Button>
+        </div>
+        <div className="overflow-auto rounded-lg border bg-background flex-1">
+          <table className="min-w-full table-auto text-sm">
+            <thead>
+              <tr>
+                {['병합', '소스', 'Main 키', 'Additional 키', '유사도'].map(h => (
+                  <th key={h} className="border-b border-r bg-muted px-3 py-2 font-semibold text-left whitespace-nowrap sticky top-0">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matches.map((m, i) => (
+                <tr key={`${m.sourceId ?? ''}-${m.mainKey}-${m.additionalKey}`} className="even:bg-muted/50">
+                  <td className="px-3 py-1 border-b border-r">
+                    <input type="checkbox" checked={accepted[i] ?? false} onChange={() => toggle(i)} className="accent-primary" />
+                  </td>
+                  <td className="px-3 py-1 border-b border-r whitespace-nowrap">{m.source ?? ''}</td>
+                  <td className="px-3 py-1 border-b border-r whitespace-nowrap font-mono">{m.mainLabel}</td>
+                  <td className="px-3 py-1 border-b border-r whitespace-nowrap font-mono">{m.additionalLabel}</td>
+                  <td className="px-3 py-1 border-b whitespace-nowrap">{(m.similarity * 100).toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>취소</Button>
+          <Button type="button" variant="default" onClick={() => onApply(matches.filter((_, i) => accepted[i]))}>확인 후 병합</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FuzzyMatchDialog;
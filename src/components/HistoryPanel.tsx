@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { History } from '@/lib/history';
+
+interface HistoryPanelProps {
+  history: History<unknown>;
+  // steps > 0이면 되돌리기, < 0이면 다시 실행
+  onMove: (steps: number) => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+// 되돌리기/다시 실행 버튼과 작업 기록. 항목을 누르면 그 작업 직후 상태로 이동
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onMove }) => {
+  const [open, setOpen] = useState(false);
+  const { past, future } = history;
+  // 되돌린 작업은 가까운 것부터
+  const undone = [...future].reverse();
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <Button type="button" size="sm" variant="outline" disabled={past.length === 0} onClick={() => onMove(1)} title="되돌리기 (Ctrl+Z)">
+        ↶ 되돌리기
+      </Button>
+      <Button type="button" size="sm" variant="outline" disabled={future.length === 0} onClick={() => onMove(-1)} title="다시 실행 (Ctrl+Shift+Z)">
+        ↷ 다시 실행
+      </Button>
+      <Button type="button" size="sm" variant="ghost" onClick={() => setOpen(v => !v)}>
+        기록 {open ? '닫기' : `(${past.length})`}
+      </Button>
+      {open && (
+        <ul className="absolute right-0 top-full z-20 mt-1 w-72 max-h-80 overflow-y-auto rounded-lg border bg-background p-1 text-sm shadow-md">
+          <li>
+            <button
+              type="button"
+              className={`w-full rounded px-2 py-1 text-left hover:bg-muted ${past.length === 0 ? 'font-semibold' : ''}`}
+              onClick={() => onMove(past.length)}
+            >
+              처음 상태
+            </button>
+          </li>
+          {past.map((entry, i) => (
+            <li key={`past-${i}`}>
+              <button
+                type="button"
+                className={`flex w-full justify-between rounded px-2 py-1 text-left hover:bg-muted ${i === past.length - 1 ? 'font-semibold bg-muted' : ''}`}
+                onClick={() => onMove(past.length - 1 - i)}
+              >
+                <span>{entry.label}</span>
+                <span className="text-xs text-muted-foreground">{formatTime(entry.time)}</span>
+              </button>
+            </li>
+          ))}
+          {undone.map((entry, i) => (
+            <li key={`future-${i}`}>
+              <button
+                type="button"
+                className="flex w-full justify-between rounded px-2 py-1 text-left text-muted-foreground line-through hover:bg-muted"
+                onClick={() => onMove(-(i + 1))}
+              >
+                <span>{entry.label}</span>
+                <span className="text-xs">{formatTime(entry.time)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
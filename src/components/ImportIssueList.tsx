@@ -0,0 +1,31 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { hasImportError, type ImportIssue } from '@/lib/importers';
+
+interface ImportIssueListProps {
+  issues: ImportIssue[];
+  onDismiss?: () => void;
+}
+
+// 마지막 가져오기의 경고/오류 목록
+const ImportIssueList: React.FC<ImportIssueListProps> = ({ issues, onDismiss }) => {
+  if (issues.length === 0) return null;
+  const failed = hasImportError(issues);
+  return (
+    <div className={`flex flex-col gap-1 rounded-lg border p-3 text-sm ${failed ? 'border-red-300 bg-red-50' : 'border-orange-300 bg-orange-50'}`}>
+      <div className="flex items-center justify-between">
+        <span className={`font-semibold ${failed ? 'text-red-800' : 'text-orange-800'}`}>
+          {failed ? '가져오기에 실패했습니다.' : '가져오기 경고'}
+        </span>
+        {onDismiss && <Button type="button" size="sm" variant="ghost" onClick={onDismiss} title="닫기">✕</Button>}
+      </div>
+      <ul className="ml-4 list-disc text-xs text-gray-700 max-h-24 overflow-y-auto">
+        {issues.map((issue, i) => (
+          <li key={i} className={issue.level === 'error' ? 'text-red-700' : undefined}>{issue.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImportIssueList;
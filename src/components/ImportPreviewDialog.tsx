@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ImportIssueList from '@/components/ImportIssueList';
+import SchemaEditor from '@/components/SchemaEditor';
+import TaskProgress from '@/components/TaskProgress';
+import { CSV_DELIMITER_LABELS, type CsvDelimiterOption } from '@/lib/csv';
+import { IMPORT_ENCODING_LABELS, type ImportEncoding } from '@/lib/encoding';
+import { hasImportError, type ImportIssue } from '@/lib/importers';
+import { applySchema, type ColumnSchema, type ColumnType } from '@/lib/schema';
+import type { TableRow } from '@/lib/table';
+import { displayName, type ColumnNames } from '@/lib/columnNames';
+import type { ParsedFile, ParseTask } from '@/lib/tasks';
+import { isCancelled, runInWorker, type TaskStatus } from '@/lib/taskClient';
+
+export interface ImportPreviewResult {
+  rows: TableRow[];
+  columnNames: ColumnNames;
+  columns: string[];
+  schema: ColumnSchema;
+  issues: ImportIssue[];
+}
+
+interface ImportPreviewDialogProps {
+  open: boolean;
+  fileName: string;
+  buffer: ArrayBuffer | null;
+  defaultEncoding: ImportEncoding;
+  defaultDelimiter: CsvDelimiterOption;
+  onApply: (result: ImportPreviewResult) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+// 옵션 입력 중에는 다시 읽지 않도록 기다리는 시간
+const PARSE_DELAY_MS = 300;
+
+const NO_TABLE: Pick<ParsedFile, 'rows' | 'columnNames' | 'columns' | 'issues' | 'schema'> = { rows: [], columnNames: {}, columns: [], issues: [], schema: {} };
+
+const selectClass = 'h-10 rounded-md border border-input bg-background px-2 text-sm';
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({
+  open,
+  fileName,
+  buffer,
+  defaultEncoding,
+  defaultDelimiter,
+  onApply,
+  onCancel,
+}) => {
+  const [encoding, setEncoding] = useState<ImportEncoding>(defaultEncoding);
+  const [delimiter, setDelimiter] = useState<CsvDelimiterOption>(defaultDelimiter);
+  const [headerRow, setHeaderRow] = useState(1);
+  const [sheet, setSheet] = useState('');
+  const [range, setRange] = useState('');
+  const [recordsPath, setRecordsPath] = useState('');
+  const [flatten, setFlatten] = useState(true);
+  // 추론 타입 위에 덮어쓸 사용자 지정 타입
+  const [overrides, setOverrides] = useState<ColumnSchema>({});
+  // Worker에서 읽은 결과와 읽는 중인 상태
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [parsing, setParsing] = useState<TaskStatus | null>(null);
+  // 미리보기 읽기와 적용 중인 작업 (파일이 바뀌거나 대화상자를 닫으면 취소)
+  const reading = useRef<AbortController | null>(null);
+  const applying = useRef<AbortController | null>(null);
+  // 시트/범위만 바꿀 때 Worker가 읽어 둔 통합 문서를 재사용하도록 파일마다 새 id
+  const [fileId, setFileId] = useState('');
+
+  // 새 파일이 열리면 옵션 초기화
+  useEffect(() => {
+    setEncoding(defaultEncoding);
+    setDelimiter(defaultDelimiter);
+    setHeaderRow(1);
+    setSheet('');
+    setRange('');
+    setRecordsPath('');
+    setFlatten(true);
+    setOverrides({});
+    setParsed(null);
+    setFileId(crypto.randomUUID());
+  }, [buffer, defaultEncoding, defaultDelimiter]);
+
+  // 데이터베이스는 sheet 이름의 테이블을 읽음
+  const parseTask = useMemo((): ParseTask | null => (buffer ? {
+    type: 'parse',
+    fileId,
+    source: { name: fileName, buffer },
+    options: { encoding, delimiter, headerRow, recordsPath, flatten },
+    selection: { sheet, range },
+  } : null), [buffer, fileId, fileName, encoding, delimiter, headerRow, recordsPath, flatten, sheet, range]);
+
+  // 옵션이 바뀌면 이전 읽기를 취소하고 다시 읽음
+  useEffect(() => {
+    if (!parseTask) {
+      setParsed(null);
+      setParsing(null);
+      return;
+    }
+    const controller = new AbortController();
+    reading.current = controller;
+    const label = '파일 읽기';
+    const timer = setTimeout(() => {
+      setParsing({ label, done: 0, total: 0 });
+      runInWorker(parseTask, (done, total) => setParsing({ label, done, total }), controller.signal)
+        .then(result => {
+          setParsed(result);
+          setParsing(null);
+        })
+        .catch(e => {
+          if (isCancelled(e)) return;
+          setParsed({
+            kind: 'table',
+            format: '',
+            rows: [],
+            columnNames: {},
+            columns: [],
+            schema: {},
+            sheetNames: [],
+            sheet: '',
+            issues: [{ level: 'error', message: '파일 읽기 오류: ' + (e as Error).message }],
+          });
+          setParsing(null);
+        });
+    }, PARSE_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [parseTask]);
+
+  useEffect(() => () => applying.current?.abort(), [buffer]);
+
+  const sheetNames = parsed?.sheetNames ?? [];
+  const activeSheet = parsed?.sheet ?? '';
+  const table = parsed ?? NO_TABLE;
+
+  const schema = useMemo(() => {
+    const merged: ColumnSchema = { ...table.schema };
+    Object.keys(overrides).forEach(col => {
+      if (col in merged) merged[col] = overrides[col];
+    });
+    return merged;
+  }, [table.schema, overrides]);
+  const columns = table.columns;
+  const previewRows = useMemo(() => applySchema(table.rows.slice(0, PREVIEW_ROWS), schema), [table.rows, schema]);
+
+  const failed = hasImportError(table.issues);
+  const isText = parsed?.kind === 'table' && parsed.format === 'csv';
+  const isJson = parsed?.format === 'json' || parsed?.format === 'jsonl';
+
+  // 진행 중인 읽기나 적용만 멈추고 대화상자는 열어 둠
+  const handleCancelParse = () => {
+    reading.current?.abort();
+    applying.current?.abort();
+    setParsing(null);
+  };
+
+  // 타입 변환도 Worker에서 (같은 옵션으로 다시 읽고 고른 타입을 적용)
+  const handleApply = () => {
+    if (!parseTask) return;
+    const controller = new AbortController();
+    applying.current = controller;
+    const label = '가져오기';
+    setParsing({ label, done: 0, total: 0 });
+    runInWorker({ ...parseTask, schema }, (done, total) => setParsing({ label, done, total }), controller.signal)
+      .then(result => {
+        setParsing(null);
+        onApply({ rows: result.rows, columnNames: result.columnNames, columns: result.columns, schema: result.schema, issues: result.issues });
+      })
+      .catch(e => {
+        if (isCancelled(e)) return;
+        setParsing(null);
+        alert('가져오기 오류: ' + (e as Error).message);
+      });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={v => { if (!v) onCancel(); }}>
+      <DialogContent className="max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>가져오기 미리보기</DialogTitle>
+          <DialogDescription>
+            {!parsed
+              ? `${fileName} · 파일을 읽는 중…`
+              : `${fileName} · ${table.rows.length}행 · ${columns.length}개 컬럼. 옵션을 확인한 뒤 적용하세요.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-end gap-4">
+          {parsed?.kind === 'database' ? (
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="previewTable">테이블</Label>
+              <select id="previewTable" value={activeSheet} onChange={e => setSheet(e.target.value)} className={selectClass}>
+                {sheetNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          ) : parsed?.kind === 'workbook' ? (
+            <>
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="previewSheet">시트</Label>
+                <select id="previewSheet" value={activeSheet} onChange={e => setSheet(e.target.value)} className={selectClass}>
+                  {sheetNames.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="previewRange">셀 범위 (선택)</Label>
+                <Input id="previewRange" value={range} placeholder="예: A3:F200" onChange={e => setRange(e.target.value)} className="w-40" />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="previewEncoding">인코딩</Label>
+                <select id="previewEncoding" value={encoding} onChange={e => setEncoding(e.target.value as ImportEncoding)} className={selectClass}>
+                  {(Object.keys(IMPORT_ENCODING_LABELS) as ImportEncoding[]).map(enc => (
+                    <option key={enc} value={enc}>{IMPORT_ENCODING_LABELS[enc]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="previewDelimiter">구분자</Label>
+                <select
+                  id="previewDelimiter"
+                  value={delimiter}
+                  disabled={!isText}
+                  onChange={e => setDelimiter(e.target.value as CsvDelimiterOption)}
+                  className={selectClass}
+                >
+                  {(Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiterOption[]).map(d => (
+                    <option key={d} value={d}>{CSV_DELIMITER_LABELS[d]}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          {isJson && (
+            <>
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="previewRecordsPath">레코드 경로</Label>
+                <Input
+                  id="previewRecordsPath"
+                  value={recordsPath}
+                  placeholder="자동 (예: data.items)"
+                  disabled={parsed?.format !== 'json'}
+                  onChange={e => setRecordsPath(e.target.value)}
+                  className="w-48"
+                />
+              </div>
+              <label className="flex items-center gap-1 h-10 text-sm cursor-pointer">
+                <input type="checkbox" checked={flatten} onChange={e => setFlatten(e.target.checked)} className="accent-primary" />
+                중첩 객체 펼치기 (address.city)
+              </label>
+            </>
+          )}
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="previewHeaderRow">헤더 행</Label>
+            <Input
+              id="previewHeaderRow"
+              type="number"
+              min={1}
+              value={headerRow}
+              disabled={!isText && parsed?.kind !== 'workbook'}
+              onChange={e => setHeaderRow(Math.max(1, Number(e.target.value) || 1))}
+              className="w-24"
+            />
+          </div>
+        </div>
+        {parsing && <TaskProgress status={parsing} onCancel={handleCancelParse} />}
+        <ImportIssueList issues={table.issues} />
+        {columns.length > 0 && (
+          <div className="flex flex-col gap-2 bg-muted rounded-lg p-3">
+            <Label>컬럼 타입</Label>
+            <SchemaEditor
+              columns={columns}
+              names={table.columnNames}
+              schema={schema}
+              onChange={(column: string, type: ColumnType) => setOverrides(prev => ({ ...prev, [column]: type }))}
+            />
+          </div>
+        )}
+        <div className="overflow-auto rounded-lg border bg-background flex-1 min-h-[120px]">
+          <table className="min-w-full table-auto text-sm">
+            <thead>
+              <tr>
+                {columns.map(col => (
+                  <th key={col} className="border-b border-r bg-muted px-3 py-2 font-semibold text-left whitespace-nowrap sticky top-0">{displayName(table.columnNames, col)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((row, i) => (
+                <tr key={i} className="even:bg-muted/50">
+                  {columns.map(col => (
+                    <td key={col} className="px-3 py-1 border-b border-r whitespace-nowrap">{row[col]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {table.rows.length > PREVIEW_ROWS && (
+            <p className="px-3 py-1 text-xs text-muted-foreground">처음 {PREVIEW_ROWS}행만 표시합니다.</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>취소</Button>
+          <Button type="button" variant="default" disabled={failed || parsing !== null || table.rows.length === 0} onClick={handleApply}>적용</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportPreviewDialog;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { displayName, type ColumnNames } from '@/lib/columnNames';
+import { COLUMN_TYPE_LABELS, type ColumnSchema, type ColumnType } from '@/lib/schema';
+
+interface SchemaEditorProps {
+  columns: string[];
+  names?: ColumnNames;
+  schema: ColumnSchema;
+  onChange: (column: string, type: ColumnType) => void;
+}
+
+// 컬럼별 추론 타입 확인 및 변경
+const SchemaEditor: React.FC<SchemaEditorProps> = ({ columns, names = {}, schema, onChange }) => {
+  if (columns.length === 0) return <span className="text-sm text-muted-foreground">테이블을 먼저 불러오세요.</span>;
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2">
+      {columns.map(col => (
+        <label key={col} className="flex items-center gap-1">
+          <span className="text-xs font-mono">{displayName(names, col)}</span>
+          <select
+            value={schema[col] ?? 'string'}
+            onChange={e => onChange(col, e.target.value as ColumnType)}
+            className="h-8 rounded-md border border-input bg-background px-1 text-xs"
+          >
+            {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(type => (
+              <option key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default SchemaEditor;
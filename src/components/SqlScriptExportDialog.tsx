@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  SQL_DIALECT_LABELS,
+  SQL_SCRIPT_MODE_LABELS,
+  type SqlDialect,
+  type SqlScriptMode,
+  type SqlScriptOptions,
+} from '@/lib/sqlScript';
+import { MISSING_PROVENANCE_MESSAGE } from '@/lib/report';
+
+interface SqlScriptExportDialogProps {
+  open: boolean;
+  keyLabels: string[];
+  // 셀 출처가 없으면 변경분(changes/upsert) 스크립트를 만들 수 없음
+  changesAvailable: boolean;
+  onExport: (options: SqlScriptOptions) => void;
+  onCancel: () => void;
+}
+
+const selectClass = 'h-10 rounded-md border border-input bg-background px-2 text-sm';
+
+const SqlScriptExportDialog: React.FC<SqlScriptExportDialogProps> = ({ open, keyLabels, changesAvailable, onExport, onCancel }) => {
+  const [dialect, setDialect] = useState<SqlDialect>('sqlite');
+  const [mode, setMode] = useState<SqlScriptMode>('insert');
+  const [table, setTable] = useState('merged');
+  const [batchSize, setBatchSize] = useState(500);
+
+  const needsKeys = mode !== 'insert';
+  const disabled = !table.trim() || (needsKeys && (keyLabels.length === 0 || !changesAvailable));
+
+  return (
+    <Dialog open={open} onOpenChange={v => { if (!v) onCancel(); }}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>SQL 스크립트로 저장</DialogTitle>
+          <DialogDescription>
+            변경분 스크립트는 Main Table 대비 바뀐 셀과 추가된 행만 반영합니다. 병합 후 직접 수정한 값은 포함되지 않습니다.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="sqlDialect">DBMS</Label>
+            <select id="sqlDialect" value={dialect} onChange={e => setDialect(e.target.value as SqlDialect)} className={selectClass}>
+              {(Object.keys(SQL_DIALECT_LABELS) as SqlDialect[]).map(d => (
+                <option key={d} value={d}>{SQL_DIALECT_LABELS[d]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="sqlMode">방식</Label>
+            <select id="sqlMode" value={mode} onChange={e => setMode(e.target.value as SqlScriptMode)} className={selectClass}>
+              {(Object.keys(SQL_SCRIPT_MODE_LABELS) as SqlScriptMode[]).map(m => (
+                <option key={m} value={m} disabled={m !== 'insert' && !changesAvailable}>{SQL_SCRIPT_MODE_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="sqlTable">테이블 이름</Label>
+            <Input id="sqlTable" value={table} onChange={e => setTable(e.target.value)} />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="sqlBatchSize">INSERT 묶음 크기</Label>
+            <Input
+              id="sqlBatchSize"
+              type="number"
+              min={1}
+              value={batchSize}
+              onChange={e => setBatchSize(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+        </div>
+        {needsKeys && !changesAvailable && <p className="text-sm text-red-600">{MISSING_PROVENANCE_MESSAGE}</p>}
+        {needsKeys && changesAvailable && (
+          <p className="text-sm">
+            {keyLabels.length > 0
+              ? `병합 키(${keyLabels.join(', ')})로 대상 행을 찾습니다.${mode === 'upsert' && dialect !== 'sqlserver' ? ' 대상 테이블에 이 키의 고유 제약이 있어야 합니다.' : ''}`
+              : '병합 기준 컬럼을 먼저 선택하세요.'}
+          </p>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>취소</Button>
+          <Button type="button" variant="default" disabled={disabled} onClick={() => onExport({ dialect, mode, table: table.trim(), batchSize })}>
+            저장
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SqlScriptExportDialog;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { listTables, openDatabase, SQLITE_EXTENSIONS } from '@/lib/sqlite';
+
+// file이 없으면 새 데이터베이스. 기존 테이블을 고르면 병합 키로 UPSERT, 아니면 새 테이블 생성
+export interface SqliteExportTarget {
+  file: { name: string; buffer: ArrayBuffer } | null;
+  table: string;
+  mode: 'create' | 'upsert';
+}
+
+interface SqliteExportDialogProps {
+  open: boolean;
+  keyLabels: string[];
+  onExport: (target: SqliteExportTarget) => void;
+  onCancel: () => void;
+}
+
+const NEW_TABLE = '';
+
+const selectClass = 'h-10 rounded-md border border-input bg-background px-2 text-sm';
+
+const SqliteExportDialog: React.FC<SqliteExportDialogProps> = ({ open, keyLabels, onExport, onCancel }) => {
+  const [file, setFile] = useState<SqliteExportTarget['file']>(null);
+  const [tables, setTables] = useState<string[]>([]);
+  const [fileError, setFileError] = useState('');
+  const [selectedTable, setSelectedTable] = useState(NEW_TABLE);
+  const [newTableName, setNewTableName] = useState('merged');
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setTables([]);
+    setFileError('');
+    setSelectedTable(NEW_TABLE);
+  }, [open]);
+
+  // 기존 파일을 고르면 테이블 목록만 읽고 닫음
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    setFileError('');
+    picked
+      .arrayBuffer()
+      .then(async buffer => {
+        const db = await openDatabase(buffer);
+        try {
+          setTables(listTables(db));
+        } finally {
+          db.close();
+        }
+        setFile({ name: picked.name, buffer });
+        setSelectedTable(NEW_TABLE);
+      })
+      .catch(err => {
+        setFile(null);
+        setTables([]);
+        setFileError(`SQLite 파일을 열 수 없습니다: ${(err as Error).message}`);
+      });
+  };
+
+  const upsert = file !== null && selectedTable !== NEW_TABLE;
+  const tableName = upsert ? selectedTable : newTableName.trim();
+  const disabled = !tableName || (upsert && keyLabels.length === 0);
+
+  return (
+    <Dialog open={open} onOpenChange={v => { if (!v) onCancel(); }}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>SQLite로 저장</DialogTitle>
+          <DialogDescription>
+            병합 결과를 새 데이터베이스나 기존 데이터베이스 파일의 테이블로 저장합니다. 수정한 데이터베이스는 새 파일로 내려받습니다.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="sqliteExportFile">대상 데이터베이스</Label>
+            <div className="flex items-center gap-2">
+              <Input id="sqliteExportFile" type="file" accept={SQLITE_EXTENSIONS.join(',')} onChange={handleFile} className="flex-1" />
+              {file && (
+                <Button type="button" size="sm" variant="ghost" onClick={() => { setFile(null); setTables([]); setSelectedTable(NEW_TABLE); }}>
+                  새 데이터베이스
+                </Button>
+              )}
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {file ? `${file.name} (테이블 ${tables.length}개)` : '파일을 고르지 않으면 새 데이터베이스를 만듭니다.'}
+            </span>
+            {fileError && <span className="text-xs text-red-700">{fileError}</span>}
+          </div>
+          {file && (
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="sqliteExportTable">테이블</Label>
+              <select id="sqliteExportTable" value={selectedTable} onChange={e => setSelectedTable(e.target.value)} className={selectClass}>
+                <option value={NEW_TABLE}>(새 테이블)</option>
+                {tables.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {upsert ? (
+            <p className="text-sm">
+              {keyLabels.length > 0
+                ? `병합 키(${keyLabels.join(', ')})가 같은 행은 갱신하고 없는 행은 추가합니다 (UPSERT).`
+                : '병합 기준 컬럼을 먼저 선택하세요.'}
+            </p>
+          ) : (
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="sqliteNewTable">새 테이블 이름</Label>
+              <Input id="sqliteNewTable" value={newTableName} onChange={e => setNewTableName(e.target.value)} />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>취소</Button>
+          <Button
+            type="button"
+            variant="default"
+            disabled={disabled}
+            onClick={() => onExport({ file, table: tableName, mode: upsert ? 'upsert' : 'create' })}
+          >
+            저장
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SqliteExportDialog;
@@ -1,20 +1,25 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import * as XLSX from 'xlsx';
+import SchemaEditor from '@/components/SchemaEditor';
+import ImportIssueList from '@/components/ImportIssueList';
+import VirtualGrid from '@/components/VirtualGrid';
+import TaskProgress from '@/components/TaskProgress';
+import { acceptedExtensions, type ImportIssue } from '@/lib/importers';
+import { applySchema, type ColumnSchema, type ColumnType } from '@/lib/schema';
+import { EXPORT_ENCODING_LABELS, IMPORT_ENCODING_LABELS, type ImportEncoding, type TextEncoding } from '@/lib/encoding';
+import { CSV_DELIMITER_LABELS, resolveExportDelimiter, type CsvDelimiterOption } from '@/lib/csv';
+import { displayName, type ColumnNames } from '@/lib/columnNames';
+import { moveColumn, resolveColumnOrder } from '@/lib/columnOrder';
+import type { ExportTable, ExportTask } from '@/lib/tasks';
+import type { TaskStatus } from '@/lib/taskClient';
 
 interface TableRow {
   [key: string]: string | number | undefined;
 }
 
-function toCSV(data: TableRow[], columns: string[]): string {
-  const header = columns.join(',');
-  const rows = data.map(row => columns.map(col => row[col.toLowerCase()] ?? '').join(','));
-  return [header, ...rows].join('\n');
-}
-
 interface TableLoaderProps {
   table: TableRow[];
   setTable: React.Dispatch<React.SetStateAction<TableRow[]>>;
@@ -28,6 +33,30 @@ interface TableLoaderProps {
   handleFile: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handlePaste: () => void;
   handleHeaderToggle: (header: string) => void;
+  csvDelimiter: CsvDelimiterOption;
+  setCsvDelimiter: React.Dispatch<React.SetStateAction<CsvDelimiterOption>>;
+  importEncoding: ImportEncoding;
+  setImportEncoding: React.Dispatch<React.SetStateAction<ImportEncoding>>;
+  exportEncoding: TextEncoding;
+  setExportEncoding: React.Dispatch<React.SetStateAction<TextEncoding>>;
+  exportOriginalHeaders: boolean;
+  setExportOriginalHeaders: React.Dispatch<React.SetStateAction<boolean>>;
+  exportNestedJson: boolean;
+  setExportNestedJson: React.Dispatch<React.SetStateAction<boolean>>;
+  importIssues: ImportIssue[];
+  handleDismissIssues: () => void;
+  schema: ColumnSchema;
+  setSchema: React.Dispatch<React.SetStateAction<ColumnSchema>>;
+  columnNames: ColumnNames;
+  setColumnNames: React.Dispatch<React.SetStateAction<ColumnNames>>;
+  columnOrder: string[];
+  setColumnOrder: React.Dispatch<React.SetStateAction<string[]>>;
+  // Worker에서 파일 내용을 만들어 내려받음
+  exportFile: (label: string, task: ExportTask, filename: string) => void;
+  task: TaskStatus | null;
+  handleCancelTask: () => void;
+  // 테이블을 바꾸기 직전에 호출 (되돌리기 기록)
+  recordHistory: (label: string) => void;
 }
 
 const TableLoader: React.FC<TableLoaderProps> = ({
@@ -43,83 +72,97 @@ const TableLoader: React.FC<TableLoaderProps> = ({
   handleFile,
   handlePaste,
   handleHeaderToggle,
+  csvDelimiter,
+  setCsvDelimiter,
+  importEncoding,
+  setImportEncoding,
+  exportEncoding,
+  setExportEncoding,
+  exportOriginalHeaders,
+  setExportOriginalHeaders,
+  exportNestedJson,
+  setExportNestedJson,
+  importIssues,
+  handleDismissIssues,
+  schema,
+  setSchema,
+  columnNames,
+  setColumnNames,
+  columnOrder,
+  setColumnOrder,
+  exportFile,
+  task,
+  handleCancelTask,
+  recordHistory,
 }) => {
+  const [showSchema, setShowSchema] = useState(false);
+  // 헤더 드래그로 옮기는 중인 컬럼
+  const [draggingCol, setDraggingCol] = useState<string | null>(null);
+
+  // 모든 행을 훑으므로 표나 순서가 바뀔 때만 다시 계산
+  const allHeaders = useMemo(() => resolveColumnOrder(columnOrder, table), [columnOrder, table]);
+  // 선택 순서와 관계없이 컬럼 순서대로 표시/저장
+  const visibleColumns = useMemo(() => allHeaders.filter(col => selectedHeaders.includes(col)), [allHeaders, selectedHeaders]);
+
+  const handleColumnDrop = (target: string) => {
+    if (draggingCol && draggingCol !== target) {
+      recordHistory('컬럼 이동');
+      setColumnOrder(moveColumn(allHeaders, draggingCol, target));
+    }
+    setDraggingCol(null);
+  };
+
+  // 컬럼 타입 변경 시 해당 컬럼 값을 새 타입으로 다시 변환
+  const handleSchemaChange = (column: string, type: ColumnType) => {
+    recordHistory('컬럼 타입 변경');
+    setSchema(prev => ({ ...prev, [column]: type }));
+    setTable(prev => applySchema(prev, { [column]: type }));
+  };
+
+  // 선택한 컬럼만 순서대로 내보냄
+  const exportTable = (): ExportTable => ({
+    rows: table,
+    columns: visibleColumns,
+    names: exportOriginalHeaders ? columnNames : {},
+    schema,
+  });
+
   const handleExport = (type: 'json' | 'csv') => {
     if (table.length === 0) return alert('데이터가 없습니다.');
-    const columns = selectedHeaders;
-    let content = '';
-    let filename = '';
     if (type === 'json') {
-      const filtered = table.map(row => {
-        const obj: TableRow = {};
-        columns.forEach(col => {
-          obj[col] = row[col];
-        });
-        return obj;
-      });
-      content = JSON.stringify(filtered, null, 2);
-      filename = 'table.json';
+      exportFile('JSON 저장', { type: 'export', format: 'json', table: exportTable(), nested: exportNestedJson }, 'table.json');
     } else {
-      content = toCSV(table, columns);
-      filename = 'table.csv';
+      const { delimiter, extension } = resolveExportDelimiter(csvDelimiter);
+      exportFile('CSV 저장', { type: 'export', format: 'csv', table: exportTable(), delimiter, encoding: exportEncoding }, `table.${extension}`);
     }
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
   };
 
   const handleExportExcel = () => {
     if (table.length === 0) return alert('데이터가 없습니다.');
-    const columns = selectedHeaders;
-    const filtered = table.map(row => {
-      const obj: TableRow = {};
-      columns.forEach(col => {
-        obj[col] = row[col];
-      });
-      return obj;
-    });
-    const ws = XLSX.utils.json_to_sheet(filtered);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Table');
-    XLSX.writeFile(wb, 'table.xlsx');
+    exportFile('엑셀 저장', { type: 'export', format: 'xlsx', table: exportTable(), sheetName: 'Table' }, 'table.xlsx');
   };
 
   const renderTable = (data: TableRow[], columns: string[]) => {
     if (!data || data.length === 0) return <p className="text-center text-muted-foreground py-4">데이터가 없습니다.</p>;
     return (
-      <div className="overflow-x-auto rounded-lg border bg-background max-h-[600px] overflow-y-auto">
-        <table className="min-w-0 table-auto text-sm">
-          <thead>
-            <tr>
-              {columns.map((col, idx) => (
-                <th key={col} className={`border-b bg-muted px-3 py-2 font-semibold text-left text-foreground whitespace-nowrap${idx !== columns.length - 1 ? ' border-r' : ''}`}>{col}</th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {data.map((row, i) => (
-              <tr key={i} className="even:bg-muted/50">
-                {columns.map((col, idx) => (
-                  <td key={col} className={`px-3 py-2 border-b whitespace-nowrap${idx !== columns.length - 1 ? ' border-r' : ''}`}>{row[col]}</td>
-                ))}
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+      <VirtualGrid
+        rows={data}
+        columns={columns}
+        names={columnNames}
+        headerProps={col => ({
+          draggable: true,
+          onDragStart: () => setDraggingCol(col),
+          onDragOver: e => e.preventDefault(),
+          onDrop: () => handleColumnDrop(col),
+          onDragEnd: () => setDraggingCol(null),
+          className: 'cursor-move' + (draggingCol === col ? ' opacity-50' : ''),
+        })}
+        renderHeader={col => displayName(columnNames, col)}
+        renderCell={(i, col) => data[i][col]}
+      />
     );
   };
 
-  const allHeaders = (() => {
-    const set = new Set<string>();
-    table.forEach(row => Object.keys(row).forEach(col => set.add(col.toLowerCase())));
-    return Array.from(set);
-  })();
-
   return (
     <div className="max-w-4xl mx-auto py-4 space-y-4 bg-gray-100 min-h-[400px]">
       <Card>
@@ -128,9 +171,32 @@ const TableLoader: React.FC<TableLoaderProps> = ({
         </CardHeader>
         <CardContent className="flex flex-col gap-4">
           <div className="flex flex-row gap-2 items-center">
-            <Input id="fileInput" type="file" accept=".json,.csv,.xlsx" ref={fileInput} onChange={handleFile} className="w-3/5 bg-gray-400" />
+            <Input id="fileInput" type="file" accept={acceptedExtensions()} ref={fileInput} onChange={handleFile} className="w-3/5 bg-gray-400" />
             <Button variant="default" type="button" onClick={() => setShowPaste(v => !v)} className="w-25">Table Paste</Button>
-            <Button variant="outline" type="button" onClick={() => { setTable([]); setSelectedHeaders([]); if (fileInput.current) fileInput.current.value = ''; }}>초기화</Button>
+            <select
+              id="loaderCsvDelimiter"
+              aria-label="CSV 구분자"
+              value={csvDelimiter}
+              onChange={e => setCsvDelimiter(e.target.value as CsvDelimiterOption)}
+              className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {(Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiterOption[]).map(d => (
+                <option key={d} value={d}>{CSV_DELIMITER_LABELS[d]}</option>
+              ))}
+            </select>
+            <select
+              id="loaderImportEncoding"
+              aria-label="가져오기 인코딩"
+              value={importEncoding}
+              onChange={e => setImportEncoding(e.target.value as ImportEncoding)}
+              className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {(Object.keys(IMPORT_ENCODING_LABELS) as ImportEncoding[]).map(enc => (
+                <option key={enc} value={enc}>{IMPORT_ENCODING_LABELS[enc]}</option>
+              ))}
+            </select>
+            <Button variant="outline" type="button" onClick={() => setShowSchema(v => !v)}>스키마</Button>
+            <Button variant="outline" type="button" onClick={() => { recordHistory('초기화'); setTable([]); setSelectedHeaders([]); setSchema({}); setColumnNames({}); setColumnOrder([]); if (fileInput.current) fileInput.current.value = ''; }}>초기화</Button>
           </div>
           {showPaste && (
             <div className="flex flex-col gap-2 bg-muted rounded-lg p-3">
@@ -148,6 +214,14 @@ const TableLoader: React.FC<TableLoaderProps> = ({
               </div>
             </div>
           )}
+          <ImportIssueList issues={importIssues} onDismiss={handleDismissIssues} />
+          {task && <TaskProgress status={task} onCancel={handleCancelTask} />}
+          {showSchema && (
+            <div className="flex flex-col gap-2 bg-muted rounded-lg p-3">
+              <Label>컬럼 타입</Label>
+              <SchemaEditor columns={allHeaders} names={columnNames} schema={schema} onChange={handleSchemaChange} />
+            </div>
+          )}
           {allHeaders.length > 0 && (
             <div className="flex flex-wrap gap-2 items-center">
               <Label className="mr-2">표시할 헤더 선택:</Label>
@@ -159,17 +233,46 @@ const TableLoader: React.FC<TableLoaderProps> = ({
                     onChange={() => handleHeaderToggle(header)}
                     className="accent-primary"
                   />
-                  <span className="text-xs font-mono">{header}</span>
+                  <span className="text-xs font-mono">{displayName(columnNames, header)}</span>
                 </label>
               ))}
             </div>
           )}
-          <div className="pt-2">{renderTable(table, selectedHeaders)}</div>
+          <div className="pt-2">{renderTable(table, visibleColumns)}</div>
         </CardContent>
         <CardFooter className="gap-2">
           <Button type="button" variant="secondary" onClick={() => handleExport('json')}>JSON 저장</Button>
+          <select
+            id="loaderExportEncoding"
+            aria-label="CSV 내보내기 인코딩"
+            value={exportEncoding}
+            onChange={e => setExportEncoding(e.target.value as TextEncoding)}
+            className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            {(Object.keys(EXPORT_ENCODING_LABELS) as TextEncoding[]).map(enc => (
+              <option key={enc} value={enc}>{EXPORT_ENCODING_LABELS[enc]}</option>
+            ))}
+          </select>
           <Button type="button" variant="secondary" onClick={() => handleExport('csv')}>CSV 저장</Button>
           <Button type="button" variant="secondary" onClick={handleExportExcel}>엑셀 저장</Button>
+          <label className="flex items-center gap-1 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportOriginalHeaders}
+              onChange={e => setExportOriginalHeaders(e.target.checked)}
+              className="accent-primary"
+            />
+            원래 컬럼명으로 저장
+          </label>
+          <label className="flex items-center gap-1 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportNestedJson}
+              onChange={e => setExportNestedJson(e.target.checked)}
+              className="accent-primary"
+            />
+            JSON 중첩 구조로 저장
+          </label>
         </CardFooter>
       </Card>
     </div>
@@ -1,311 +1,590 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import ConflictReviewDialog from '@/components/ConflictReviewDialog';
+import FuzzyMatchDialog from '@/components/FuzzyMatchDialog';
+import SchemaEditor from '@/components/SchemaEditor';
+import ImportIssueList from '@/components/ImportIssueList';
+import EditableGrid from '@/components/EditableGrid';
+import SqliteExportDialog, { type SqliteExportTarget } from '@/components/SqliteExportDialog';
+import SqlScriptExportDialog from '@/components/SqlScriptExportDialog';
+import TaskProgress from '@/components/TaskProgress';
+import ContextMenu, { type ContextMenuItem } from '@/components/ContextMenu';
+import type { SqlScriptOptions } from '@/lib/sqlScript';
+import type { TaskStatus } from '@/lib/taskClient';
+import {
+  findDuplicateKeys,
+  CONFLICT_POLICY_LABELS,
+  DUPLICATE_STRATEGY_LABELS,
+  JOIN_TYPE_LABELS,
+  MERGE_MODE_LABELS,
+  type CellProvenance,
+  type ConflictOptions,
+  type ConflictPolicy,
+  type DuplicateStrategy,
+  type FuzzyMatch,
+  type JoinType,
+  type MergeConflict,
+  type MergeMode,
+  type RowProvenance,
+  type SourcesMergeResult,
+} from '@/lib/merge';
+import { KEY_NORMALIZATION_LABELS, type KeyMatchOptions } from '@/lib/keyMatch';
+import {
+  applyColumnMapping,
+  applyColumnMappingToNames,
+  findMappingCollisions,
+  suggestColumnMappings,
+  type ColumnMapping,
+  type ColumnMappingEntry,
+} from '@/lib/columnMapping';
+import { EXPORT_ENCODING_LABELS, IMPORT_ENCODING_LABELS, type ImportEncoding, type TextEncoding } from '@/lib/encoding';
+import { CSV_DELIMITER_LABELS, type CsvDelimiterOption } from '@/lib/csv';
+import { acceptedExtensions, type ImportIssue } from '@/lib/importers';
+import { applySchema, convertInput, inferColumnType, type ColumnSchema, type ColumnType } from '@/lib/schema';
+import { buildMergeReport, CHANGE_TYPE_LABELS, MISSING_PROVENANCE_MESSAGE } from '@/lib/report';
+import { displayName, mergeColumnNames, normalizeColumnName, type ColumnNames } from '@/lib/columnNames';
+import { getAllColumns, insertColumnAfter, moveColumn, renameColumn, resolveColumnOrder } from '@/lib/columnOrder';
+import {
+  addColumn,
+  applyRowOperation,
+  blankRow,
+  clearColumn,
+  clearRange,
+  copyColumn,
+  copyColumnName,
+  deleteColumn,
+  fillDown,
+  newColumnNames,
+  pasteValues,
+  rangeValues,
+  COLUMN_OPERATION_LABELS,
+  ROW_OPERATION_LABELS,
+  type ColumnOperation,
+  type RowOperation,
+} from '@/lib/tableOps';
+import type { RangeBounds } from '@/lib/cellRange';
+import type { SourceTable } from '@/lib/table';
 
 interface TableRow {
   [key: string]: string | number | undefined;
 }
 
 interface TableMergeManagerProps {
-  table1: TableRow[];
-  setTable1: React.Dispatch<React.SetStateAction<TableRow[]>>;
-  table2: TableRow[];
-  setTable2: React.Dispatch<React.SetStateAction<TableRow[]>>;
+  sources: SourceTable[];
+  setSources: React.Dispatch<React.SetStateAction<SourceTable[]>>;
   mergedTable: TableRow[];
   setMergedTable: React.Dispatch<React.SetStateAction<TableRow[]>>;
-  mergeKey: string;
-  setMergeKey: React.Dispatch<React.SetStateAction<string>>;
-  showPaste1: boolean;
-  setShowPaste1: React.Dispatch<React.SetStateAction<boolean>>;
-  showPaste2: boolean;
-  setShowPaste2: React.Dispatch<React.SetStateAction<boolean>>;
-  pasteText1: string;
-  setPasteText1: React.Dispatch<React.SetStateAction<string>>;
-  pasteText2: string;
-  setPasteText2: React.Dispatch<React.SetStateAction<string>>;
-  fileInput1: React.RefObject<HTMLInputElement>;
-  fileInput2: React.RefObject<HTMLInputElement>;
-  handleFile1: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  handleFile2: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  handlePaste1: () => void;
-  handlePaste2: () => void;
+  // null이면 새로고침 후 복원한 결과라 셀 출처가 없음
+  mergedProvenance: RowProvenance[] | null;
+  setMergedProvenance: React.Dispatch<React.SetStateAction<RowProvenance[] | null>>;
+  mergedColumnNames: ColumnNames;
+  setMergedColumnNames: React.Dispatch<React.SetStateAction<ColumnNames>>;
+  mergedColumnOrder: string[];
+  setMergedColumnOrder: React.Dispatch<React.SetStateAction<string[]>>;
+  mergeKeys: string[];
+  setMergeKeys: React.Dispatch<React.SetStateAction<string[]>>;
+  joinType: JoinType;
+  setJoinType: React.Dispatch<React.SetStateAction<JoinType>>;
+  mergeMode: MergeMode;
+  setMergeMode: React.Dispatch<React.SetStateAction<MergeMode>>;
+  conflictOptions: ConflictOptions;
+  setConflictOptions: React.Dispatch<React.SetStateAction<ConflictOptions>>;
+  duplicateStrategy: DuplicateStrategy;
+  setDuplicateStrategy: React.Dispatch<React.SetStateAction<DuplicateStrategy>>;
+  keyMatchOptions: KeyMatchOptions;
+  setKeyMatchOptions: React.Dispatch<React.SetStateAction<KeyMatchOptions>>;
+  columnMappings: Record<string, ColumnMapping>;
+  setColumnMappings: React.Dispatch<React.SetStateAction<Record<string, ColumnMapping>>>;
+  csvDelimiter: CsvDelimiterOption;
+  setCsvDelimiter: React.Dispatch<React.SetStateAction<CsvDelimiterOption>>;
+  importEncoding: ImportEncoding;
+  setImportEncoding: React.Dispatch<React.SetStateAction<ImportEncoding>>;
+  exportEncoding: TextEncoding;
+  setExportEncoding: React.Dispatch<React.SetStateAction<TextEncoding>>;
+  exportOriginalHeaders: boolean;
+  setExportOriginalHeaders: React.Dispatch<React.SetStateAction<boolean>>;
+  exportNestedJson: boolean;
+  setExportNestedJson: React.Dispatch<React.SetStateAction<boolean>>;
+  importIssues: Record<string, ImportIssue[]>;
+  handleDismissIssues: (id: string) => void;
+  mergedSchema: ColumnSchema;
+  updateSource: (id: string, patch: Partial<SourceTable>) => void;
+  handleSourceFile: (id: string, e: React.ChangeEvent<HTMLInputElement>) => void;
+  handleSourcePaste: (id: string) => void;
+  handleAddSource: () => void;
+  handleRemoveSource: (id: string) => void;
+  handleMoveSource: (id: string, direction: -1 | 1) => void;
   handleMerge: () => void;
+  pendingFuzzy: FuzzyMatch[] | null;
+  handleApplyFuzzy: (accepted: FuzzyMatch[]) => void;
+  handleCancelFuzzy: () => void;
+  pendingMerge: SourcesMergeResult | null;
+  handleApplyConflicts: (conflicts: MergeConflict[]) => void;
+  handleCancelConflicts: () => void;
   handleExport: (type: 'json' | 'csv') => void;
   handleExportExcel: () => void;
+  handleExportReport: (type: 'csv' | 'xlsx') => void;
+  handleExportSqlite: (target: SqliteExportTarget) => Promise<void>;
+  handleExportSql: (options: SqlScriptOptions) => void;
+  // 진행 중인 Worker 작업 (병합, 내보내기 등)
+  task: TaskStatus | null;
+  handleCancelTask: () => void;
+  // 테이블을 바꾸기 직전에 호출 (되돌리기 기록)
+  recordHistory: (label: string) => void;
 }
 
-function getAllColumns(...tables: TableRow[][]): string[] {
-  const set = new Set<string>();
-  tables.forEach(table => table.forEach(row => Object.keys(row).forEach(col => set.add(col.toLowerCase()))));
-  return Array.from(set);
-}
+const NO_MAPPING: ColumnMapping = {};
 
 const TableMergeManager: React.FC<TableMergeManagerProps> = ({
-  table1,
-  setTable1,
-  table2,
-  setTable2,
+  sources,
+  setSources,
   mergedTable,
   setMergedTable,
-  mergeKey,
-  setMergeKey,
-  showPaste1,
-  setShowPaste1,
-  showPaste2,
-  setShowPaste2,
-  pasteText1,
-  setPasteText1,
-  pasteText2,
-  setPasteText2,
-  fileInput1,
-  fileInput2,
-  handleFile1,
-  handleFile2,
-  handlePaste1,
-  handlePaste2,
+  mergedProvenance,
+  setMergedProvenance,
+  mergedColumnNames,
+  setMergedColumnNames,
+  mergedColumnOrder,
+  setMergedColumnOrder,
+  mergeKeys,
+  setMergeKeys,
+  joinType,
+  setJoinType,
+  mergeMode,
+  setMergeMode,
+  conflictOptions,
+  setConflictOptions,
+  duplicateStrategy,
+  setDuplicateStrategy,
+  keyMatchOptions,
+  setKeyMatchOptions,
+  columnMappings,
+  setColumnMappings,
+  csvDelimiter,
+  setCsvDelimiter,
+  importEncoding,
+  setImportEncoding,
+  exportEncoding,
+  setExportEncoding,
+  exportOriginalHeaders,
+  setExportOriginalHeaders,
+  exportNestedJson,
+  setExportNestedJson,
+  importIssues,
+  handleDismissIssues,
+  mergedSchema,
+  updateSource,
+  handleSourceFile,
+  handleSourcePaste,
+  handleAddSource,
+  handleRemoveSource,
+  handleMoveSource,
   handleMerge,
+  pendingFuzzy,
+  handleApplyFuzzy,
+  handleCancelFuzzy,
+  pendingMerge,
+  handleApplyConflicts,
+  handleCancelConflicts,
   handleExport,
   handleExportExcel,
+  handleExportReport,
+  handleExportSqlite,
+  handleExportSql,
+  task,
+  handleCancelTask,
+  recordHistory,
 }) => {
-  // 인라인 에디팅 상태: {tableType, rowIdx, col} (tableType: 'table1' | 'table2' | 'merged')
-  const [editingCell, setEditingCell] = useState<{ table: string; rowIdx: number; col: string } | null>(null);
-  const [editingValue, setEditingValue] = useState<string>('');
-  // 헤더 인라인 에디팅 상태: {table, col, colIdx}
-  const [editingHeader, setEditingHeader] = useState<{ table: string; col: string; colIdx: number } | null>(null);
-  const [editingHeaderValue, setEditingHeaderValue] = useState<string>('');
-
-  // 셀 값 변경 핸들러
-  const handleCellChange = (table: string, rowIdx: number, col: string, value: string) => {
-    // Convert value to appropriate type (number or string)
-    const convertValue = (val: string): string | number => {
-      const trimmed = val.trim();
-      if (trimmed === '') return '';
-      
-      const num = Number(trimmed);
-      if (!isNaN(num) && trimmed !== '') {
-        return num;
+  // 우클릭 메뉴: 행 위에서 열면 rowIdx가 있고, 헤더에서 열면 컬럼 메뉴만 표시
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; table: string; col: string; rowIdx?: number } | null>(null);
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+  const [showPolicies, setShowPolicies] = useState(false);
+  const [showKeyMatch, setShowKeyMatch] = useState(false);
+  const [showColumnMapping, setShowColumnMapping] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showSqliteExport, setShowSqliteExport] = useState(false);
+  const [showSqlExport, setShowSqlExport] = useState(false);
+  // 스키마 패널이 열린 소스 id
+  const [schemaSourceId, setSchemaSourceId] = useState<string | null>(null);
+  // 컬럼 매핑 패널에서 편집 중인 소스 id
+  const [mappingSourceId, setMappingSourceId] = useState<string>('');
+
+  // 소스 id 또는 'merged'에 해당하는 테이블 행 갱신
+  const updateTableRows = (table: string, update: (rows: TableRow[]) => TableRow[]) => {
+    if (table === 'merged') {
+      setMergedTable(update);
+    } else {
+      setSources(prev => prev.map(src => (src.id === table ? { ...src, rows: update(src.rows) } : src)));
+    }
+  };
+
+  const getTableSchema = (table: string): ColumnSchema =>
+    table === 'merged' ? mergedSchema : sources.find(src => src.id === table)?.schema ?? {};
+
+  const getTableNames = (table: string): ColumnNames =>
+    table === 'merged' ? mergedColumnNames : sources.find(src => src.id === table)?.columnNames ?? {};
+
+  // 화면에 보이는 컬럼 순서. 행을 모두 훑어야 하므로 바뀐 소스만 다시 계산
+  const columnCache = useRef(new WeakMap<SourceTable, string[]>());
+  const sourceColumns = useMemo(() => {
+    const result: Record<string, string[]> = {};
+    sources.forEach(src => {
+      let columns = columnCache.current.get(src);
+      if (!columns) {
+        columns = resolveColumnOrder(src.columnOrder, src.rows);
+        columnCache.current.set(src, columns);
       }
-      return trimmed;
+      result[src.id] = columns;
+    });
+    return result;
+  }, [sources]);
+  const mergedColumns = useMemo(() => resolveColumnOrder(mergedColumnOrder, mergedTable), [mergedColumnOrder, mergedTable]);
+
+  const getTableColumns = (table: string): string[] =>
+    table === 'merged' ? mergedColumns : sourceColumns[table] ?? [];
+
+  const updateTableOrder = (table: string, update: (order: string[]) => string[]) => {
+    if (table === 'merged') {
+      setMergedColumnOrder(update);
+    } else {
+      setSources(prev => prev.map(src => (src.id === table ? { ...src, columnOrder: update(src.columnOrder) } : src)));
+    }
+  };
+
+  // 드래그한 컬럼을 놓은 헤더 자리로 이동
+  const handleColumnMove = (table: string, col: string, target: string) => {
+    recordHistory('컬럼 이동');
+    updateTableOrder(table, () => moveColumn(getTableColumns(table), col, target));
+  };
+
+  const getTableRows = (table: string): TableRow[] =>
+    table === 'merged' ? mergedTable : sources.find(src => src.id === table)?.rows ?? [];
+
+  // 셀 값 변경 핸들러 (컬럼 스키마 타입으로 변환)
+  const handleCellChange = (table: string, rowIdx: number, col: string, value: string) => {
+    const convertedValue = convertInput(value, getTableSchema(table)[col]);
+    const rows = getTableRows(table);
+    if (rows[rowIdx]?.[col] === convertedValue) return;
+    recordHistory('셀 수정');
+
+    updateTableRows(table, prev => {
+      const next = [...prev];
+      next[rowIdx] = { ...next[rowIdx], [col]: convertedValue };
+      return next;
+    });
+  };
+
+  // 헤더 값 변경 핸들러. 입력한 이름은 표시 이름으로 보관하고 키는 정규화 이름으로 변경
+  const handleHeaderChange = (table: string, oldCol: string, newName: string) => {
+    const name = newName.trim();
+    const newCol = normalizeColumnName(name);
+    if (!newCol || name === displayName(getTableNames(table), oldCol)) return;
+    const renameNames = (names: ColumnNames) => {
+      const { [oldCol]: _old, ...rest } = names;
+      return { ...rest, [newCol]: name };
     };
-    
-    const convertedValue = convertValue(value);
-    
-    if (table === 'table1') {
-      setTable1(prev => {
-        const next = [...prev];
-        next[rowIdx] = { ...next[rowIdx], [col]: convertedValue };
-        return next;
-      });
-    } else if (table === 'table2') {
-      setTable2(prev => {
-        const next = [...prev];
-        next[rowIdx] = { ...next[rowIdx], [col]: convertedValue };
-        return next;
-      });
-    } else if (table === 'merged') {
-      setMergedTable(prev => {
-        const next = [...prev];
-        next[rowIdx] = { ...next[rowIdx], [col]: convertedValue };
-        return next;
+    if (oldCol === newCol) {
+      // 대소문자만 바뀐 경우 표시 이름만 변경
+      recordHistory('컬럼 이름 변경');
+      if (table === 'merged') setMergedColumnNames(renameNames);
+      else setSources(prev => prev.map(src => (src.id === table ? { ...src, columnNames: renameNames(src.columnNames) } : src)));
+      return;
+    }
+    const rows = getTableRows(table);
+    if (getAllColumns(rows).includes(newCol)) {
+      alert(`이미 같은 이름의 컬럼이 있습니다: ${name}`);
+      return;
+    }
+    recordHistory('컬럼 이름 변경');
+    const renameKey = <T,>(row: Record<string, T>) => {
+      const newRow: Record<string, T> = {};
+      Object.keys(row).forEach(k => {
+        if (k === oldCol) {
+          newRow[newCol] = row[k];
+        } else {
+          newRow[k] = row[k];
+        }
       });
+      return newRow;
+    };
+    updateTableRows(table, prev => prev.map(row => renameKey(row)));
+    updateTableOrder(table, order => renameColumn(resolveColumnOrder(order, rows), oldCol, newCol));
+    if (table !== 'merged') {
+      setSources(prev => prev.map(src => (
+        src.id === table ? { ...src, schema: renameKey(src.schema), columnNames: renameNames(src.columnNames) } : src
+      )));
+    } else {
+      setMergedProvenance(prev => prev && prev.map(prov => ({ ...prov, cells: renameKey(prov.cells) })));
+      setMergedColumnNames(renameNames);
     }
   };
 
-  // 헤더 값 변경 핸들러
-  const handleHeaderChange = (table: string, oldCol: string, newCol: string) => {
-    if (!newCol || oldCol === newCol) return;
-    if (table === 'table1') {
-      setTable1(prev => prev.map(row => {
-        const newRow: TableRow = {};
-        Object.keys(row).forEach(k => {
-          if (k === oldCol) {
-            newRow[newCol] = row[k];
-          } else {
-            newRow[k] = row[k];
-          }
-        });
-        return newRow;
-      }));
-    } else if (table === 'table2') {
-      setTable2(prev => prev.map(row => {
-        const newRow: TableRow = {};
-        Object.keys(row).forEach(k => {
-          if (k === oldCol) {
-            newRow[newCol] = row[k];
-          } else {
-            newRow[k] = row[k];
-          }
-        });
-        return newRow;
+  // 컬럼 타입 변경 시 해당 컬럼 값을 새 타입으로 다시 변환
+  const handleSchemaChange = (id: string, column: string, type: ColumnType) => {
+    recordHistory('컬럼 타입 변경');
+    setSources(prev => prev.map(src => (
+      src.id === id
+        ? { ...src, schema: { ...src.schema, [column]: type }, rows: applySchema(src.rows, { [column]: type }) }
+        : src
+    )));
+  };
+
+  // 행 삽입/복제/삭제. 병합 결과는 셀 출처도 같은 자리에서 함께 바꿈
+  const handleRowOperation = (table: string, op: RowOperation, rowIdx: number) => {
+    const columns = getAllColumns(getTableRows(table));
+    recordHistory(ROW_OPERATION_LABELS[op]);
+    updateTableRows(table, prev => applyRowOperation(prev, op, rowIdx, () => blankRow(columns)));
+    if (table === 'merged') {
+      setMergedProvenance(prev => prev && applyRowOperation(prev, op, rowIdx, () => ({ sources: [], cells: {} })));
+    }
+  };
+
+  // 컬럼 추가/복제/삭제/채우기/비우기. 추가와 복제는 col 바로 오른쪽에 새 컬럼을 둠
+  const handleColumnOperation = (table: string, op: ColumnOperation, col: string) => {
+    const rows = getTableRows(table);
+    const existing = getAllColumns(rows);
+    const names = getTableNames(table);
+    let newName = '';
+    if (op === 'add') {
+      newName = prompt('새 컬럼 이름')?.trim() ?? '';
+      if (!newName) return;
+      if (existing.includes(normalizeColumnName(newName))) {
+        alert(`이미 같은 이름의 컬럼이 있습니다: ${newName}`);
+        return;
+      }
+    } else if (op === 'duplicate') {
+      newName = copyColumnName(displayName(names, col), existing);
+    }
+    const newCol = normalizeColumnName(newName);
+    recordHistory(COLUMN_OPERATION_LABELS[op]);
+
+    const updateRows = (prev: TableRow[]): TableRow[] => {
+      switch (op) {
+        case 'add':
+          return addColumn(prev, newCol);
+        case 'duplicate':
+          return copyColumn(prev, col, newCol);
+        case 'delete':
+          return deleteColumn(prev, col);
+        case 'fillDown':
+          return fillDown(prev, col);
+        case 'clear':
+          return clearColumn(prev, col);
+      }
+    };
+    const updateOrder = (order: string[]) => {
+      const resolved = resolveColumnOrder(order, rows);
+      return op === 'delete' ? resolved.filter(c => c !== col) : insertColumnAfter(resolved, col, newCol);
+    };
+    const updateNames = (prev: ColumnNames): ColumnNames => {
+      if (op === 'delete') {
+        const { [col]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [newCol]: newName };
+    };
+    const changesColumns = op === 'add' || op === 'duplicate' || op === 'delete';
+
+    updateTableRows(table, updateRows);
+    if (changesColumns) updateTableOrder(table, updateOrder);
+    if (table === 'merged') {
+      if (changesColumns) setMergedColumnNames(updateNames);
+      // 삭제하거나 비운 컬럼은 출처 표시도 지움. 복제한 컬럼은 원래 출처를 그대로 가짐
+      setMergedProvenance(prev => prev && prev.map(prov => {
+        if (op === 'duplicate') return { ...prov, cells: copyColumn([prov.cells], col, newCol)[0] };
+        if (op === 'delete' || op === 'clear') return { ...prov, cells: deleteColumn([prov.cells], col)[0] };
+        return prov;
       }));
-    } else if (table === 'merged') {
-      setMergedTable(prev => prev.map(row => {
-        const newRow: TableRow = {};
-        Object.keys(row).forEach(k => {
-          if (k === oldCol) {
-            newRow[newCol] = row[k];
-          } else {
-            newRow[k] = row[k];
-          }
-        });
-        return newRow;
+    } else if (changesColumns) {
+      setSources(prev => prev.map(src => {
+        if (src.id !== table) return src;
+        const schema = op === 'delete'
+          ? deleteColumn([src.schema], col)[0]
+          : op === 'duplicate' ? copyColumn([src.schema], col, newCol)[0] : src.schema;
+        return { ...src, schema, columnNames: updateNames(src.columnNames) };
       }));
     }
   };
 
+  const contextMenuItems = (menu: NonNullable<typeof contextMenu>): ContextMenuItem[] => {
+    const { table, col, rowIdx } = menu;
+    const rowItems: ContextMenuItem[] = rowIdx === undefined
+      ? []
+      : [
+          ...(['insertAbove', 'insertBelow', 'duplicate', 'delete'] as RowOperation[]).map(op => ({
+            label: ROW_OPERATION_LABELS[op],
+            onSelect: () => handleRowOperation(table, op, rowIdx),
+          })),
+          null,
+        ];
+    const columnItems = (['add', 'duplicate', 'delete', 'fillDown', 'clear'] as ColumnOperation[]).map(op => ({
+      label: `${COLUMN_OPERATION_LABELS[op]}${op === 'add' ? '' : ` (${displayName(getTableNames(table), col)})`}`,
+      onSelect: () => handleColumnOperation(table, op, col),
+    }));
+    return [...rowItems, ...columnItems];
+  };
+
+  const handleClearRange = (table: string, bounds: RangeBounds) => {
+    const cols = getTableColumns(table);
+    const values = rangeValues(getTableRows(table), cols, bounds);
+    if (values.every(record => record.every(value => value === undefined || value === ''))) return;
+    recordHistory('셀 비우기');
+    updateTableRows(table, prev => clearRange(prev, cols, bounds));
+  };
+
+  // 왼쪽 위 셀부터 값 블록을 붙여넣음. 모자라는 행과 컬럼은 추가하고, 새 컬럼의 타입은 붙여넣은 값으로 추정
+  const handlePaste = (table: string, top: number, left: number, block: string[][]) => {
+    const cols = getTableColumns(table);
+    const width = Math.max(...block.map(record => record.length));
+    const extra = newColumnNames(cols, left + width - cols.length);
+    const columns = [...cols, ...extra];
+    const extraSchema: ColumnSchema = {};
+    extra.forEach(col => {
+      const c = columns.indexOf(col) - left;
+      extraSchema[col] = inferColumnType(block.map(record => record[c]));
+    });
+    const extraNames: ColumnNames = Object.fromEntries(extra.map(col => [col, col]));
+    const schema = { ...getTableSchema(table), ...extraSchema };
+    const values = block.map(record => record.map((value, c) => convertInput(value, schema[columns[left + c]])));
+    const rowCount = Math.max(getTableRows(table).length, top + block.length);
+
+    recordHistory('붙여넣기');
+    updateTableRows(table, prev => pasteValues(extra.reduce(addColumn, prev), columns, top, left, values));
+    if (extra.length > 0) {
+      updateTableOrder(table, () => columns);
+      if (table === 'merged') {
+        setMergedColumnNames(prev => ({ ...prev, ...extraNames }));
+      } else {
+        setSources(prev => prev.map(src => (
+          src.id === table
+            ? { ...src, schema: { ...src.schema, ...extraSchema }, columnNames: { ...src.columnNames, ...extraNames } }
+            : src
+        )));
+      }
+    }
+    if (table === 'merged') {
+      setMergedProvenance(prev => prev && [...prev, ...Array.from({ length: Math.max(0, rowCount - prev.length) }, () => ({ sources: [], cells: {} }))]);
+    }
+  };
+
+  const mainSource = sources[0];
+  // 컬럼 매핑을 적용한 소스 (병합 시 사용되는 형태)
+  const mappedSources = useMemo(
+    () => sources.map((src, i) => (i === 0 ? src : { ...src, rows: applyColumnMapping(src.rows, columnMappings[src.id] ?? {}) })),
+    [sources, columnMappings]
+  );
+  const keyCandidates = useMemo(() => getAllColumns(...mappedSources.map(src => src.rows)), [mappedSources]);
+  const candidateNames = useMemo(
+    () => mergeColumnNames(
+      ...sources.map((src, i) => (i === 0 ? src.columnNames : applyColumnMappingToNames(src.columnNames, columnMappings[src.id] ?? {})))
+    ),
+    [sources, columnMappings]
+  );
+
+  // 존재하지 않는 기준 컬럼은 제거하고, 선택된 것이 없으면 두 번째 소스의 첫 컬럼을 기본값으로 사용
   useEffect(() => {
-    if (table2.length > 0) {
-      const firstRow = table2[0];
+    if (mappedSources.every(src => src.rows.length === 0)) return;
+    const valid = mergeKeys.filter(k => keyCandidates.includes(k.toLowerCase()));
+    if (valid.length === 0) {
+      const firstRow = mappedSources[1]?.rows[0] ?? mappedSources[0]?.rows[0];
       const firstCol = firstRow && Object.keys(firstRow)[0];
-      if (firstCol && mergeKey.toLowerCase() !== firstCol.toLowerCase()) {
-        setMergeKey(firstCol);
+      if (firstCol) setMergeKeys([firstCol.toLowerCase()]);
+      else if (mergeKeys.length > 0) setMergeKeys([]);
+    } else if (valid.length !== mergeKeys.length) {
+      setMergeKeys(valid);
+    }
+  }, [mappedSources, keyCandidates, mergeKeys, setMergeKeys]);
+
+  const handleMergeKeyToggle = (col: string) => {
+    setMergeKeys(prev =>
+      prev.includes(col)
+        ? prev.filter(k => k !== col)
+        : [...prev, col]
+    );
+  };
+
+  const duplicates = useMemo(
+    () => mappedSources
+      .map(src => ({ name: src.name, dups: findDuplicateKeys(src.rows, mergeKeys, keyMatchOptions) }))
+      .filter(({ dups }) => dups.length > 0),
+    [mappedSources, mergeKeys, keyMatchOptions]
+  );
+
+  const report = useMemo(
+    () => (showReport && mergedProvenance ? buildMergeReport(mergedTable, mergedProvenance, mainSource?.name ?? '', mergeKeys) : null),
+    [showReport, mergedTable, mergedProvenance, mainSource, mergeKeys]
+  );
+
+  const mappingSource = sources.find((src, i) => i > 0 && src.id === mappingSourceId) ?? sources[1];
+  const columnMapping = (mappingSource && columnMappings[mappingSource.id]) ?? NO_MAPPING;
+
+  const columnSuggestions = useMemo(
+    () => (showColumnMapping && mainSource && mappingSource ? suggestColumnMappings(mainSource.rows, mappingSource.rows) : []),
+    [showColumnMapping, mainSource, mappingSource]
+  );
+
+  const mappingColumns = useMemo(() => getAllColumns(mappingSource?.rows ?? []), [mappingSource]);
+  // 매핑 후 이름이 겹치는 컬럼 (이름 변경 입력 중에는 경고만 표시하고 병합 시 막음)
+  const mappingCollisions = useMemo(() => findMappingCollisions(mappingColumns, columnMapping), [mappingColumns, columnMapping]);
+
+  const setColumnMapping = (update: (mapping: ColumnMapping) => ColumnMapping) => {
+    if (!mappingSource) return;
+    setColumnMappings(prev => ({ ...prev, [mappingSource.id]: update(prev[mappingSource.id] ?? {}) }));
+  };
+
+  // 기존 컬럼과 겹치는 대상으로는 매핑하지 않음 (한쪽 값이 다른 쪽을 덮어씀)
+  const handleColumnMappingChange = (col: string, entry: ColumnMappingEntry) => {
+    if (entry.action === 'map') {
+      const collisions = findMappingCollisions(mappingColumns, { ...columnMapping, [col]: entry });
+      const target = normalizeColumnName(entry.target);
+      if (collisions[target]) {
+        alert(`'${target}' 컬럼이 이미 있습니다: ${collisions[target].join(', ')}\n겹치는 컬럼을 무시하거나 이름을 바꾼 뒤 매핑하세요.`);
+        return;
       }
     }
-  }, [table2, mergeKey, setMergeKey]);
-
-  const renderTable = (
-    data: TableRow[],
-    columns?: string[],
-    highlightDiffs?: boolean,
-    tableType?: 'table1' | 'table2' | 'merged'
-  ) => {
-    if (!data || data.length === 0) return <p className="text-center text-muted-foreground py-4">데이터가 없습니다.</p>;
-    const cols = (columns || getAllColumns(data)).map(c => c.toLowerCase());
+    setColumnMapping(prev => ({ ...prev, [col]: entry }));
+  };
+
+  // 이름이 겹치게 되는 제안은 건너뜀
+  const handleApplySuggestions = () => {
+    const next = { ...columnMapping };
+    const skipped: string[] = [];
+    columnSuggestions.forEach(s => {
+      const entry: ColumnMappingEntry = { action: 'map', target: s.main };
+      if (findMappingCollisions(mappingColumns, { ...next, [s.additional]: entry })[s.main]) skipped.push(`${s.additional} → ${s.main}`);
+      else next[s.additional] = entry;
+    });
+    setColumnMapping(() => next);
+    if (skipped.length > 0) alert('이름이 겹치는 컬럼이 있어 적용하지 않은 제안:\n' + skipped.join('\n'));
+  };
+
+  const handlePolicyChange = (col: string, policy: ConflictPolicy) => {
+    setConflictOptions(prev => ({ ...prev, policies: { ...prev.policies, [col]: policy } }));
+  };
+
+  // 병합 시 기록된 출처가 Main이 아닌 셀만 표시 (행 번호로 바로 찾음)
+  const mergedProvenanceOf = (rowIdx: number, col: string) => {
+    const provenance = mergedProvenance?.[rowIdx]?.cells?.[col];
+    return provenance && mainSource && provenance.source !== mainSource.name ? provenance : undefined;
+  };
+
+  const renderTable = (table: string, data: TableRow[], provenanceOf?: (rowIdx: number, col: string) => CellProvenance | undefined) => {
     return (
-      <div className="overflow-x-auto rounded-lg border bg-background max-h-[600px] overflow-y-auto">
-        <table className="min-w-0 table-auto text-sm">
-          <thead>
-            <tr>
-              {cols.map((col, idx) => {
-                const isEditingHeader =
-                  editingHeader &&
-                  editingHeader.table === tableType &&
-                  editingHeader.colIdx === idx;
-                return (
-                  <th
-                    key={col}
-                    className={
-                      `border-b bg-muted px-3 py-2 font-semibold text-left text-foreground whitespace-nowrap` +
-                      (idx !== cols.length - 1 ? ' border-r' : '')
-                    }
-                    onClick={e => {
-                      e.stopPropagation();
-                      if (!isEditingHeader && tableType) {
-                        setEditingHeader({ table: tableType, col, colIdx: idx });
-                        setEditingHeaderValue(col);
-                      }
-                    }}
-                    style={{ cursor: 'pointer' }}
-                  >
-                    {isEditingHeader ? (
-                      <input
-                        className="bg-yellow-50 border rounded px-1 py-0.5 text-sm"
-                        value={editingHeaderValue}
-                        autoFocus
-                        placeholder="헤더명"
-                        size={Math.max(6, editingHeaderValue.length + 2)}
-                        style={{ minWidth: 60, maxWidth: 300 }}
-                        onChange={e => setEditingHeaderValue(e.target.value)}
-                        onBlur={() => {
-                          handleHeaderChange(tableType!, col, editingHeaderValue.toLowerCase());
-                          setEditingHeader(null);
-                        }}
-                        onKeyDown={e => {
-                          if (e.key === 'Enter') {
-                            handleHeaderChange(tableType!, col, editingHeaderValue.toLowerCase());
-                            setEditingHeader(null);
-                          } else if (e.key === 'Escape') {
-                            setEditingHeader(null);
-                          }
-                        }}
-                      />
-                    ) : (
-                      col
-                    )}
-                  </th>
-                );
-              })}
-            </tr>
-          </thead>
-          <tbody>
-            {data.map((row, i) => (
-              <tr key={i} className="even:bg-muted/50">
-                {cols.map((col, idx) => {
-                  let cellClass = "px-3 py-2 border-b whitespace-nowrap" + (idx !== cols.length - 1 ? ' border-r' : '');
-                  let cellValue = row[col];
-                  if (highlightDiffs && mergeKey && table1.length > 0 && table2.length > 0) {
-                    const key = mergeKey.toLowerCase();
-                    const row1 = table1.find(r => r[key] === row[key]);
-                    const row2 = table2.find(r => r[key] === row[key]);
-                    if (!row1 && row2) {
-                      // 완전히 새로 추가된 row: 모든 셀 초록색
-                      cellClass += " bg-green-200";
-                    } else if (row1 && row2) {
-                      // 기존 row에서 새로 추가된 컬럼
-                      if (row1[col] === undefined && row2[col] !== undefined) {
-                        cellClass += " bg-green-200";
-                      } else if (
-                        row1[col] !== undefined &&
-                        row2[col] !== undefined &&
-                        row2[col] !== null &&
-                        row2[col] !== '' &&
-                        String(row1[col]).trim() !== String(row2[col]).trim()
-                      ) {
-                        // 기존 값이 바뀐 경우 (단, Additional Table의 값이 비어있지 않을 때만)
-                        cellClass += " bg-yellow-200";
-                      }
-                    }
-                  }
-                  // 인라인 에디팅 렌더링
-                  const isEditing =
-                    editingCell &&
-                    editingCell.table === tableType &&
-                    editingCell.rowIdx === i &&
-                    editingCell.col === col;
-                  return (
-                    <td
-                      key={col}
-                      className={cellClass + ' cursor-pointer'}
-                      onClick={() => {
-                        if (!isEditing && tableType) {
-                          setEditingCell({ table: tableType, rowIdx: i, col });
-                          setEditingValue(String(cellValue ?? ''));
-                        }
-                      }}
-                    >
-                      {isEditing ? (
-                        <input
-                          className="w-full bg-yellow-50 border rounded px-1 py-0.5 text-sm"
-                          value={editingValue}
-                          autoFocus
-                          placeholder="값 입력"
-                          onChange={e => setEditingValue(e.target.value)}
-                          onBlur={() => {
-                            handleCellChange(tableType!, i, col, editingValue);
-                            setEditingCell(null);
-                          }}
-                          onKeyDown={e => {
-                            if (e.key === 'Enter') {
-                              handleCellChange(tableType!, i, col, editingValue);
-                              setEditingCell(null);
-                            } else if (e.key === 'Escape') {
-                              setEditingCell(null);
-                            }
-                          }}
-                        />
-                      ) : (
-                        cellValue !== undefined && cellValue !== null ? String(cellValue) : ''
-                      )}
-                    </td>
-                  );
-                })}
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+      <EditableGrid
+        rows={data}
+        columns={getTableColumns(table)}
+        names={getTableNames(table)}
+        provenanceOf={provenanceOf}
+        onCellChange={(rowIdx, col, value) => handleCellChange(table, rowIdx, col, value)}
+        onHeaderChange={(col, name) => handleHeaderChange(table, col, name)}
+        onColumnMove={(col, target) => handleColumnMove(table, col, target)}
+        onClearRange={bounds => handleClearRange(table, bounds)}
+        onPaste={(top, left, block) => handlePaste(table, top, left, block)}
+        onContextMenu={(x, y, col, rowIdx) => setContextMenu({ x, y, table, col, rowIdx })}
+      />
     );
   };
 
@@ -313,52 +592,55 @@ const TableMergeManager: React.FC<TableMergeManagerProps> = ({
     <div className="max-w-10xl mx-auto py-4 space-y-2 bg-gray-300 min-h-screen">
       <h1 className="text-3xl font-bold text-center mb-6 font-handdrawn">DB Merge Manager</h1>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-        {/* Table 1 */}
-        <Card className="flex flex-col">
-          <CardHeader>
-            <CardTitle className="font-gothictitle">Main Table</CardTitle>
-          </CardHeader>
-          <CardContent className="flex flex-col gap-3">
-            <div className="flex flex-row gap-2">
-              <Input id="fileInput1" type="file" accept=".json,.csv,.xlsx" ref={fileInput1} onChange={handleFile1} className="w-3/5 bg-gray-400" />
-              <Button variant="default" type="button" onClick={() => setShowPaste1(v => !v)} className="w-25">Table Paste</Button>
-            </div>
-            {showPaste1 && (
-              <div className="flex flex-col gap-2 bg-muted rounded-lg p-3">
- 
-                <textarea id="pasteText1" className="resize-none rounded-md border p-2 text-sm bg-background" rows={4} value={pasteText1} onChange={e => setPasteText1(e.target.value)} placeholder="엑셀 등에서 복사한 표를 Ctrl+V로 붙여넣으세요. 소수점은 .으로 입력하세요 (예: 3.14). 퍼센트는 %로 입력하세요 (예: 5%)" />
-                <div className="flex gap-2 justify-end">
-                  <Button variant="default" type="button" onClick={() => { handlePaste1(); setShowPaste1(false); }}>적용</Button>
-                  <Button variant="outline" type="button" onClick={() => setShowPaste1(false)}>닫기</Button>
-                </div>
+        {sources.map((src, idx) => (
+          <Card key={src.id} className="flex flex-col">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="font-gothictitle">
+                {src.name}
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  {idx === 0 ? '기준 테이블' : `우선순위 ${idx + 1}`}
+                </span>
+              </CardTitle>
+              <div className="flex gap-1">
+                <Button type="button" size="sm" variant="ghost" disabled={idx === 0} onClick={() => handleMoveSource(src.id, -1)} title="우선순위 올리기">↑</Button>
+                <Button type="button" size="sm" variant="ghost" disabled={idx === sources.length - 1} onClick={() => handleMoveSource(src.id, 1)} title="우선순위 내리기">↓</Button>
+                <Button type="button" size="sm" variant="ghost" disabled={sources.length <= 2} onClick={() => handleRemoveSource(src.id)} title="테이블 삭제">✕</Button>
               </div>
-            )}
-            <div className="pt-2">{renderTable(table1, undefined, false, 'table1')}</div>
-          </CardContent>
-        </Card>
-        {/* Table 2 */}
-        <Card className="flex flex-col">
-          <CardHeader>
-            <CardTitle className="font-gothictitle">Additional Table</CardTitle>
-          </CardHeader>
-          <CardContent className="flex flex-col gap-3">
-            <div className="flex flex-row gap-2">
-              <Input id="fileInput2" type="file" accept=".json,.csv,.xlsx" ref={fileInput2} onChange={handleFile2} className="w-3/5 bg-gray-400" />
-              <Button variant="default" type="button" onClick={() => setShowPaste2(v => !v)} className="w-25">Table Paste</Button>
-            </div>
-            {showPaste2 && (
-              <div className="flex flex-col gap-2 bg-muted rounded-lg p-3">
-            
-                <textarea id="pasteText2" className="resize-none rounded-md border p-2 text-sm bg-background" rows={4} value={pasteText2} onChange={e => setPasteText2(e.target.value)} placeholder="엑셀 등에서 복사한 표를 Ctrl+V로 붙여넣으세요. 소수점은 .으로 입력하세요 (예: 3.14). 퍼센트는 %로 입력하세요 (예: 5%)" />
-                <div className="flex gap-2 justify-end">
-                  <Button variant="default" type="button" onClick={() => { handlePaste2(); setShowPaste2(false); }}>적용</Button>
-                  <Button variant="outline" type="button" onClick={() => setShowPaste2(false)}>닫기</Button>
-                </div>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-3">
+              <div className="flex flex-row gap-2">
+                <Input id={`fileInput-${src.id}`} type="file" accept={acceptedExtensions()} onChange={e => handleSourceFile(src.id, e)} className="w-3/5 bg-gray-400" />
+                <Button variant="default" type="button" onClick={() => updateSource(src.id, { showPaste: !src.showPaste })} className="w-25">Table Paste</Button>
+                <Button variant="outline" type="button" onClick={() => setSchemaSourceId(v => (v === src.id ? null : src.id))}>스키마</Button>
               </div>
-            )}
-            <div className="pt-2">{renderTable(table2, undefined, false, 'table2')}</div>
-          </CardContent>
-        </Card>
+              <ImportIssueList issues={importIssues[src.id] ?? []} onDismiss={() => handleDismissIssues(src.id)} />
+              {schemaSourceId === src.id && (
+                <div className="flex flex-col gap-2 bg-muted rounded-lg p-3">
+                  <Label>컬럼 타입</Label>
+                  <SchemaEditor
+                    columns={sourceColumns[src.id]}
+                    names={src.columnNames}
+                    schema={src.schema}
+                    onChange={(column, type) => handleSchemaChange(src.id, column, type)}
+                  />
+                </div>
+              )}
+              {src.showPaste && (
+                <div className="flex flex-col gap-2 bg-muted rounded-lg p-3">
+                  <textarea id={`pasteText-${src.id}`} className="resize-none rounded-md border p-2 text-sm bg-background" rows={4} value={src.pasteText} onChange={e => updateSource(src.id, { pasteText: e.target.value })} placeholder="엑셀 등에서 복사한 표를 Ctrl+V로 붙여넣으세요. 소수점은 .으로 입력하세요 (예: 3.14). 퍼센트는 %로 입력하세요 (예: 5%)" />
+                  <div className="flex gap-2 justify-end">
+                    <Button variant="default" type="button" onClick={() => handleSourcePaste(src.id)}>적용</Button>
+                    <Button variant="outline" type="button" onClick={() => updateSource(src.id, { showPaste: false })}>닫기</Button>
+                  </div>
+                </div>
+              )}
+              <div className="pt-2">{renderTable(src.id, src.rows)}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <div className="flex justify-center">
+        <Button type="button" variant="outline" onClick={handleAddSource}>+ 테이블 추가</Button>
       </div>
       {/* Merge Section */}
       <Card>
@@ -368,14 +650,97 @@ const TableMergeManager: React.FC<TableMergeManagerProps> = ({
         <CardContent>
           <div className="flex flex-col md:flex-row md:items-end gap-4">
             <div className="flex flex-col gap-1">
-              <Label htmlFor="mergeKey">병합 기준 컬럼</Label>
-              <Input id="mergeKey" type="text" value={mergeKey} onChange={e => setMergeKey(e.target.value)} placeholder="예: id" className="w-32" />
+              <Label>병합 기준 컬럼 (복수 선택 가능)</Label>
+              {keyCandidates.length > 0 ? (
+                <div className="flex flex-wrap gap-2 items-center">
+                  {keyCandidates.map(col => (
+                    <label key={col} className="flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={mergeKeys.includes(col)}
+                        onChange={() => handleMergeKeyToggle(col)}
+                        className="accent-primary"
+                      />
+                      <span className="text-xs font-mono">{displayName(candidateNames, col)}</span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <span className="text-sm text-muted-foreground">테이블을 먼저 불러오세요.</span>
+              )}
             </div>
             <div className="flex flex-row flex-wrap items-center gap-2">
+              <select
+                id="duplicateStrategy"
+                aria-label="중복 키 처리"
+                value={duplicateStrategy}
+                onChange={e => setDuplicateStrategy(e.target.value as DuplicateStrategy)}
+                className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {(Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]).map(strategy => (
+                  <option key={strategy} value={strategy}>{DUPLICATE_STRATEGY_LABELS[strategy]}</option>
+                ))}
+              </select>
+              <select
+                id="mergeMode"
+                aria-label="다중 소스 병합 방식"
+                value={mergeMode}
+                onChange={e => setMergeMode(e.target.value as MergeMode)}
+                className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {(Object.keys(MERGE_MODE_LABELS) as MergeMode[]).map(mode => (
+                  <option key={mode} value={mode}>{MERGE_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              <select
+                id="joinType"
+                aria-label="병합 방식"
+                value={joinType}
+                onChange={e => setJoinType(e.target.value as JoinType)}
+                className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {(Object.keys(JOIN_TYPE_LABELS) as JoinType[]).map(type => (
+                  <option key={type} value={type}>{JOIN_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <select
+                id="csvDelimiter"
+                aria-label="CSV 구분자"
+                value={csvDelimiter}
+                onChange={e => setCsvDelimiter(e.target.value as CsvDelimiterOption)}
+                className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {(Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiterOption[]).map(d => (
+                  <option key={d} value={d}>{CSV_DELIMITER_LABELS[d]}</option>
+                ))}
+              </select>
+              <select
+                id="mergeImportEncoding"
+                aria-label="가져오기 인코딩"
+                value={importEncoding}
+                onChange={e => setImportEncoding(e.target.value as ImportEncoding)}
+                className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {(Object.keys(IMPORT_ENCODING_LABELS) as ImportEncoding[]).map(enc => (
+                  <option key={enc} value={enc}>{IMPORT_ENCODING_LABELS[enc]}</option>
+                ))}
+              </select>
+              <select
+                id="mergeExportEncoding"
+                aria-label="CSV 내보내기 인코딩"
+                value={exportEncoding}
+                onChange={e => setExportEncoding(e.target.value as TextEncoding)}
+                className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {(Object.keys(EXPORT_ENCODING_LABELS) as TextEncoding[]).map(enc => (
+                  <option key={enc} value={enc}>{EXPORT_ENCODING_LABELS[enc]}</option>
+                ))}
+              </select>
               <Button
                 type="button"
                 variant="default"
                 onClick={handleMerge}
+                disabled={task !== null}
                 className="min-w-[64px] max-w-[100px] px-2"
               >
                 병합
@@ -383,7 +748,7 @@ const TableMergeManager: React.FC<TableMergeManagerProps> = ({
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => setMergedTable([])}
+                onClick={() => { recordHistory('병합 결과 초기화'); setMergedTable([]); setMergedProvenance([]); setMergedColumnNames({}); setMergedColumnOrder([]); }}
                 className="min-w-[64px] max-w-[100px] px-2"
               >
                 초기화
@@ -412,12 +777,244 @@ const TableMergeManager: React.FC<TableMergeManagerProps> = ({
               >
                 엑셀저장
               </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => (mergedTable.length > 0 ? setShowSqliteExport(true) : alert('병합 결과가 없습니다.'))}
+                className="min-w-[64px] max-w-[100px] px-2"
+              >
+                SQLite 저장
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => (mergedTable.length > 0 ? setShowSqlExport(true) : alert('병합 결과가 없습니다.'))}
+                className="min-w-[64px] max-w-[100px] px-2"
+              >
+                SQL 저장
+              </Button>
+              <label className="flex items-center gap-1 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={exportOriginalHeaders}
+                  onChange={e => setExportOriginalHeaders(e.target.checked)}
+                  className="accent-primary"
+                />
+                원래 컬럼명으로 저장
+              </label>
+              <label className="flex items-center gap-1 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={exportNestedJson}
+                  onChange={e => setExportNestedJson(e.target.checked)}
+                  className="accent-primary"
+                />
+                JSON 중첩 구조로 저장
+              </label>
             </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowColumnMapping(v => !v)}
+              className="px-2"
+            >
+              컬럼 매핑 {showColumnMapping ? '닫기' : '설정'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowKeyMatch(v => !v)}
+              className="px-2"
+            >
+              키 매칭 {showKeyMatch ? '닫기' : '설정'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowPolicies(v => !v)}
+              className="px-2"
+            >
+              충돌 정책 {showPolicies ? '닫기' : '설정'}
+            </Button>
           </div>
+          {duplicates.length > 0 && (
+            <div className="flex flex-col gap-1 rounded-lg border border-orange-300 bg-orange-50 p-3 mt-4 text-sm">
+              <span className="font-semibold text-orange-800">중복된 병합 키가 있습니다.</span>
+              {duplicates.map(({ name, dups }) => (
+                <div key={name} className="flex flex-col">
+                  <span className="text-orange-800">{name}: {dups.length}개 키</span>
+                  <ul className="ml-4 list-disc text-xs font-mono text-gray-700 max-h-24 overflow-y-auto">
+                    {dups.map(d => (
+                      <li key={d.keyLabel}>[{d.keyLabel}] 행 {d.rowNumbers.join(', ')}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+          {showColumnMapping && (
+            <div className="flex flex-col gap-3 bg-muted rounded-lg p-3 mt-4">
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label="매핑할 테이블"
+                  value={mappingSource?.id ?? ''}
+                  onChange={e => setMappingSourceId(e.target.value)}
+                  className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+                >
+                  {sources.slice(1).map(src => (
+                    <option key={src.id} value={src.id}>{src.name}</option>
+                  ))}
+                </select>
+                <span className="text-sm">컬럼을 {mainSource?.name} 컬럼에 대응시킵니다.</span>
+                <Button type="button" size="sm" variant="outline" onClick={handleApplySuggestions} disabled={columnSuggestions.length === 0}>
+                  자동 제안 적용 ({columnSuggestions.length})
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setColumnMapping(() => ({}))}>매핑 초기화</Button>
+              </div>
+              {Object.keys(mappingCollisions).length > 0 && (
+                <div className="text-sm text-red-600">
+                  매핑 후 이름이 겹치는 컬럼이 있어 병합할 수 없습니다:{' '}
+                  {Object.entries(mappingCollisions).map(([target, cols]) => `${target} ← ${cols.join(', ')}`).join('; ')}
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {(mappingSource ? sourceColumns[mappingSource.id] : []).map(col => {
+                  const entry = columnMapping[col] ?? { action: 'keep', target: '' };
+                  const suggestion = columnSuggestions.find(s => s.additional === col);
+                  const selectValue = entry.action === 'map' ? `map:${entry.target}` : entry.action;
+                  return (
+                    <div key={col} className="flex items-center gap-2">
+                      <span className="text-xs font-mono w-32 truncate" title={col}>{displayName(mappingSource?.columnNames ?? {}, col)}</span>
+                      <select
+                        aria-label={`${col} 매핑`}
+                        value={selectValue}
+                        onChange={e => {
+                          const v = e.target.value;
+                          if (v.startsWith('map:')) handleColumnMappingChange(col, { action: 'map', target: v.slice(4) });
+                          else handleColumnMappingChange(col, { action: v as ColumnMappingEntry['action'], target: v === 'rename' ? entry.target || col : '' });
+                        }}
+                        className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+                      >
+                        <option value="keep">그대로 사용</option>
+                        {(mainSource ? sourceColumns[mainSource.id] : []).map(main => (
+                          <option key={main} value={`map:${main}`}>→ {displayName(mainSource?.columnNames ?? {}, main)}</option>
+                        ))}
+                        <option value="rename">이름 변경</option>
+                        <option value="ignore">무시</option>
+                      </select>
+                      {entry.action === 'rename' && (
+                        <input
+                          className={`border rounded px-1 py-0.5 text-xs w-28 ${mappingCollisions[normalizeColumnName(entry.target)] ? 'border-red-500' : ''}`}
+                          value={entry.target}
+                          placeholder="새 컬럼명"
+                          onChange={e => handleColumnMappingChange(col, { action: 'rename', target: e.target.value })}
+                        />
+                      )}
+                      {suggestion && entry.action === 'keep' && (
+                        <span className="text-xs text-muted-foreground" title={`이름 ${(suggestion.nameScore * 100).toFixed(0)}%, 값 ${(suggestion.valueOverlap * 100).toFixed(0)}%`}>
+                          제안: → {suggestion.main}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          {showKeyMatch && (
+            <div className="flex flex-row flex-wrap items-center gap-4 bg-muted rounded-lg p-3 mt-4">
+              {(Object.keys(KEY_NORMALIZATION_LABELS) as (keyof typeof KEY_NORMALIZATION_LABELS)[]).map(opt => (
+                <label key={opt} className="flex items-center gap-1 cursor-pointer text-sm">
+                  <input
+                    type="checkbox"
+                    checked={keyMatchOptions[opt]}
+                    onChange={e => setKeyMatchOptions(prev => ({ ...prev, [opt]: e.target.checked }))}
+                    className="accent-primary"
+                  />
+                  {KEY_NORMALIZATION_LABELS[opt]}
+                </label>
+              ))}
+              <label className="flex items-center gap-1 cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={keyMatchOptions.fuzzy}
+                  onChange={e => setKeyMatchOptions(prev => ({ ...prev, fuzzy: e.target.checked }))}
+                  className="accent-primary"
+                />
+                유사 키 매칭 (편집 거리)
+              </label>
+              <div className="flex items-center gap-1">
+                <Label htmlFor="fuzzyThreshold">최소 유사도</Label>
+                <Input
+                  id="fuzzyThreshold"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={keyMatchOptions.fuzzyThreshold}
+                  disabled={!keyMatchOptions.fuzzy}
+                  onChange={e => setKeyMatchOptions(prev => ({ ...prev, fuzzyThreshold: Number(e.target.value) }))}
+                  className="w-20"
+                />
+              </div>
+            </div>
+          )}
+          {showPolicies && (
+            <div className="flex flex-col gap-3 bg-muted rounded-lg p-3 mt-4">
+              <div className="flex flex-row flex-wrap gap-4">
+                <div className="flex flex-col gap-1">
+                  <Label htmlFor="concatSeparator">연결 구분자</Label>
+                  <Input
+                    id="concatSeparator"
+                    type="text"
+                    value={conflictOptions.separator}
+                    onChange={e => setConflictOptions(prev => ({ ...prev, separator: e.target.value }))}
+                    className="w-24"
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Label htmlFor="timestampColumn">타임스탬프 컬럼</Label>
+                  <select
+                    id="timestampColumn"
+                    value={conflictOptions.timestampColumn}
+                    onChange={e => setConflictOptions(prev => ({ ...prev, timestampColumn: e.target.value }))}
+                    className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+                  >
+                    <option value="">(선택 안 함)</option>
+                    {keyCandidates.map(col => (
+                      <option key={col} value={col}>{displayName(candidateNames, col)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {keyCandidates.filter(col => !mergeKeys.includes(col)).map(col => (
+                  <div key={col} className="flex items-center gap-2">
+                    <span className="text-xs font-mono w-32 truncate" title={col}>{displayName(candidateNames, col)}</span>
+                    <select
+                      aria-label={`${col} 충돌 정책`}
+                      value={conflictOptions.policies[col] ?? 'nonEmpty'}
+                      onChange={e => handlePolicyChange(col, e.target.value as ConflictPolicy)}
+                      className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-xs"
+                    >
+                      {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map(policy => (
+                        <option key={policy} value={policy}>{CONFLICT_POLICY_LABELS[policy]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex-col items-start">
+          {task && (
+            <div className="w-full mb-2">
+              <TaskProgress status={task} onCancel={handleCancelTask} />
+            </div>
+          )}
           {/* Legend for revised/added marks - only show if mergedTable is not empty */}
-          {mergedTable.length > 0 && (
+          {mergedTable.length > 0 && mergedProvenance && (
             <div className="flex gap-4 mb-2">
               <div className="flex items-center gap-1">
                 <span className="inline-block w-4 h-4 rounded bg-yellow-200 border border-yellow-400"></span>
@@ -427,11 +1024,111 @@ const TableMergeManager: React.FC<TableMergeManagerProps> = ({
                 <span className="inline-block w-4 h-4 rounded bg-green-200 border border-green-400"></span>
                 <span className="text-sm text-gray-700">Added: 녹색</span>
               </div>
+              <span className="text-sm text-gray-500">셀에 마우스를 올리면 값의 출처 테이블이 표시됩니다.</span>
+            </div>
+          )}
+          {mergedTable.length > 0 && !mergedProvenance && (
+            <p className="mb-2 text-sm text-muted-foreground">{MISSING_PROVENANCE_MESSAGE}</p>
+          )}
+          {mergedTable.length > 0 && mergedProvenance && (
+            <div className="flex gap-2 mb-2">
+              <Button type="button" size="sm" variant="outline" onClick={() => setShowReport(v => !v)}>
+                병합 리포트 {showReport ? '닫기' : '보기'}
+              </Button>
+              <Button type="button" size="sm" variant="secondary" onClick={() => handleExportReport('csv')}>리포트 CSV</Button>
+              <Button type="button" size="sm" variant="secondary" onClick={() => handleExportReport('xlsx')}>리포트 엑셀</Button>
+            </div>
+          )}
+          {showReport && report && (
+            <div className="w-full flex flex-col gap-3 bg-muted rounded-lg p-3 mb-2 text-sm">
+              <div className="flex flex-wrap gap-4">
+                <span>전체 {report.totalRows}행</span>
+                <span>매칭 {report.matchedRows}</span>
+                <span className="text-green-700">추가 {report.addedRows}</span>
+                <span className="text-yellow-700">변경 {report.updatedRows}</span>
+                <span className="text-gray-600">변경 없음 {report.unchangedRows}</span>
+              </div>
+              {report.columns.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {report.columns.map(c => (
+                    <span key={c.column} className="rounded border bg-background px-2 py-0.5 text-xs font-mono">
+                      {displayName(mergedColumnNames, c.column)}: 변경 {c.updated} / 추가 {c.added}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {report.changes.length > 0 && (
+                <div className="max-h-60 overflow-y-auto rounded border bg-background">
+                  <table className="min-w-full table-auto text-xs">
+                    <thead>
+                      <tr>
+                        {['행', '키', '컬럼', '구분', '출처', '이전 값', '새 값'].map(h => (
+                          <th key={h} className="border-b border-r bg-muted px-2 py-1 text-left whitespace-nowrap sticky top-0">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.changes.slice(0, 500).map((c, i) => (
+                        <tr key={i} className="even:bg-muted/50">
+                          <td className="px-2 py-1 border-b border-r">{c.row}</td>
+                          <td className="px-2 py-1 border-b border-r font-mono whitespace-nowrap">{c.key}</td>
+                          <td className="px-2 py-1 border-b border-r font-mono">{displayName(mergedColumnNames, c.column)}</td>
+                          <td className="px-2 py-1 border-b border-r whitespace-nowrap">{CHANGE_TYPE_LABELS[c.type]}</td>
+                          <td className="px-2 py-1 border-b border-r whitespace-nowrap">{c.source}</td>
+                          <td className="px-2 py-1 border-b border-r">{String(c.before ?? '')}</td>
+                          <td className="px-2 py-1 border-b">{String(c.after ?? '')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {report.changes.length > 500 && (
+                    <p className="px-2 py-1 text-xs text-muted-foreground">
+                      처음 500건만 표시합니다. 전체 목록은 리포트를 내보내세요.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           )}
-          <div className="w-full">{renderTable(mergedTable, undefined, true, 'merged')}</div>
+          <div className="w-full">{renderTable('merged', mergedTable, mergedProvenanceOf)}</div>
         </CardFooter>
       </Card>
+      <FuzzyMatchDialog
+        open={pendingFuzzy !== null}
+        matches={pendingFuzzy ?? []}
+        onApply={handleApplyFuzzy}
+        onCancel={handleCancelFuzzy}
+      />
+      <ConflictReviewDialog
+        open={pendingMerge !== null}
+        conflicts={pendingMerge?.conflicts ?? []}
+        schema={mergedSchema}
+        columnNames={candidateNames}
+        onApply={handleApplyConflicts}
+        onCancel={handleCancelConflicts}
+      />
+      <SqliteExportDialog
+        open={showSqliteExport}
+        keyLabels={mergeKeys.map(key => displayName(mergedColumnNames, key))}
+        onExport={target => {
+          setShowSqliteExport(false);
+          handleExportSqlite(target);
+        }}
+        onCancel={() => setShowSqliteExport(false)}
+      />
+      <SqlScriptExportDialog
+        open={showSqlExport}
+        keyLabels={mergeKeys.map(key => displayName(mergedColumnNames, key))}
+        changesAvailable={mergedProvenance !== null}
+        onExport={options => {
+          setShowSqlExport(false);
+          handleExportSql(options);
+        }}
+        onCancel={() => setShowSqlExport(false)}
+      />
+      {contextMenu && (
+        <ContextMenu x={contextMenu.x} y={contextMenu.y} items={contextMenuItems(contextMenu)} onClose={closeContextMenu} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { TaskStatus } from '@/lib/taskClient';
+
+interface TaskProgressProps {
+  status: TaskStatus;
+  onCancel: () => void;
+}
+
+// 진행 중인 Worker 작업. 진행률을 모르면 스피너만 표시
+const TaskProgress: React.FC<TaskProgressProps> = ({ status, onCancel }) => {
+  const percent = status.total > 0 ? Math.min(100, Math.round((status.done / status.total) * 100)) : null;
+  return (
+    <div className="flex items-center gap-3 rounded-lg border bg-muted p-3 text-sm">
+      <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />
+      <div className="flex flex-1 flex-col gap-1">
+        <span>{status.label} 중…{percent !== null && ` ${percent}%`}</span>
+        {percent !== null && (
+          <div className="h-2 overflow-hidden rounded-full bg-background">
+            <div className="h-full bg-primary transition-[width]" style={{ width: `${percent}%` }} />
+          </div>
+        )}
+      </div>
+      <Button type="button" size="sm" variant="outline" onClick={onCancel}>취소</Button>
+    </div>
+  );
+};
+
+export default TaskProgress;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import { displayName, type ColumnNames } from '@/lib/columnNames';
+import type { TableRow } from '@/lib/table';
+
+interface VirtualGridProps {
+  rows: TableRow[];
+  columns: string[];
+  names?: ColumnNames;
+  rowHeight?: number;
+  maxHeight?: number;
+  renderHeader: (col: string, colIdx: number) => React.ReactNode;
+  headerProps?: (col: string, colIdx: number) => React.HTMLAttributes<HTMLDivElement>;
+  renderCell: (rowIdx: number, col: string, colIdx: number) => React.ReactNode;
+  cellProps?: (rowIdx: number, col: string, colIdx: number) => React.HTMLAttributes<HTMLDivElement>;
+  // 스크롤 영역에 붙일 속성 (키보드 조작 등)
+  containerProps?: React.HTMLAttributes<HTMLDivElement>;
+  // 바뀌면 이 셀이 보이도록 스크롤
+  activeCell?: { row: number; col: number } | null;
+}
+
+// 화면 밖에 미리 그려 둘 행/컬럼 수
+const OVERSCAN_ROWS = 8;
+const OVERSCAN_COLUMNS = 2;
+const WIDTH_SAMPLE_ROWS = 50;
+const MIN_COLUMN_WIDTH = 80;
+const MAX_COLUMN_WIDTH = 320;
+const NO_NAMES: ColumnNames = {};
+
+// 헤더와 앞쪽 행의 글자 수로 컬럼 너비 추정
+function estimateWidth(rows: TableRow[], col: string, label: string): number {
+  let chars = label.length;
+  for (let i = 0; i < Math.min(rows.length, WIDTH_SAMPLE_ROWS); i++) {
+    const value = rows[i][col];
+    if (value !== undefined && value !== null) chars = Math.max(chars, String(value).length);
+  }
+  return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, chars * 8 + 28));
+}
+
+// offsets[i] <= x < offsets[i + 1]인 i
+function findIndex(offsets: number[], x: number): number {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= x) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+}
+
+// 보이는 행과 컬럼만 그리는 표. 헤더는 세로 스크롤 시 고정. ref는 스크롤 영역
+const VirtualGrid = React.forwardRef<HTMLDivElement, VirtualGridProps>(({
+  rows,
+  columns,
+  names = NO_NAMES,
+  rowHeight = 36,
+  maxHeight = 600,
+  renderHeader,
+  headerProps,
+  renderCell,
+  cellProps,
+  containerProps = {},
+  activeCell,
+}, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useImperativeHandle(ref, () => containerRef.current!, []);
+  const frame = useRef(0);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: maxHeight });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const measure = () => setViewport({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame.current);
+    };
+  }, []);
+
+  // 스크롤 이벤트는 프레임당 한 번만 반영
+  const handleScroll = () => {
+    cancelAnimationFrame(frame.current);
+    frame.current = requestAnimationFrame(() => {
+      const el = containerRef.current;
+      if (el) setScroll({ top: el.scrollTop, left: el.scrollLeft });
+    });
+  };
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    columns.forEach(col => result.push(result[result.length - 1] + estimateWidth(rows, col, displayName(names, col))));
+    return result;
+  }, [rows, columns, names]);
+  const totalWidth = offsets[offsets.length - 1];
+
+  const activeRow = activeCell?.row;
+  const activeCol = activeCell?.col;
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || activeRow === undefined || activeCol === undefined || activeCol >= offsets.length - 1) return;
+    // 고정된 헤더 아래로 보이도록 행 위치에 헤더 높이를 더함
+    const top = (activeRow + 1) * rowHeight;
+    if (top - rowHeight < el.scrollTop) el.scrollTop = top - rowHeight;
+    else if (top + rowHeight > el.scrollTop + el.clientHeight) el.scrollTop = top + rowHeight - el.clientHeight;
+    if (offsets[activeCol] < el.scrollLeft) el.scrollLeft = offsets[activeCol];
+    else if (offsets[activeCol + 1] > el.scrollLeft + el.clientWidth) el.scrollLeft = offsets[activeCol + 1] - el.clientWidth;
+  }, [activeRow, activeCol, offsets, rowHeight]);
+
+  const bodyHeight = Math.max(0, viewport.height - rowHeight);
+  const firstRow = Math.max(0, Math.floor(scroll.top / rowHeight) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length - 1, Math.ceil((scroll.top + bodyHeight) / rowHeight) + OVERSCAN_ROWS);
+  const viewWidth = viewport.width || totalWidth;
+  const firstCol = columns.length > 0 ? Math.max(0, findIndex(offsets, scroll.left) - OVERSCAN_COLUMNS) : 0;
+  const lastCol = columns.length > 0 ? Math.min(columns.length - 1, findIndex(offsets, scroll.left + viewWidth) + OVERSCAN_COLUMNS) : -1;
+
+  const visibleColumns: number[] = [];
+  for (let c = firstCol; c <= lastCol; c++) visibleColumns.push(c);
+  const visibleRows: number[] = [];
+  for (let r = firstRow; r <= lastRow; r++) visibleRows.push(r);
+
+  const cellStyle = (c: number, top: number): React.CSSProperties => ({ left: offsets[c], width: offsets[c + 1] - offsets[c], top, height: rowHeight });
+
+  return (
+    <div
+      ref={containerRef}
+      {...containerProps}
+      onScroll={handleScroll}
+      className={`overflow-auto rounded-lg border bg-background text-sm ${containerProps.className ?? ''}`}
+      style={{ maxHeight, height: Math.min(maxHeight, (rows.length + 1) * rowHeight + 2), ...containerProps.style }}
+    >
+      <div className="relative" style={{ width: totalWidth, height: (rows.length + 1) * rowHeight }}>
+        <div className="sticky top-0 z-10" style={{ width: totalWidth, height: rowHeight }}>
+          {visibleColumns.map(c => {
+            const col = columns[c];
+            const props = headerProps?.(col, c) ?? {};
+            return (
+              <div
+                key={col}
+                {...props}
+                className={`absolute flex items-center border-b border-r bg-muted px-3 font-semibold text-foreground whitespace-nowrap overflow-hidden ${props.className ?? ''}`}
+                style={{ ...cellStyle(c, 0), ...props.style }}
+              >
+                {renderHeader(col, c)}
+              </div>
+            );
+          })}
+        </div>
+        {visibleRows.map(r => (
+          <React.Fragment key={r}>
+            {r % 2 === 1 && (
+              <div className="absolute left-0 bg-muted/50" style={{ top: (r + 1) * rowHeight, width: totalWidth, height: rowHeight }} />
+            )}
+            {visibleColumns.map(c => {
+              const col = columns[c];
+              const props = cellProps?.(r, col, c) ?? {};
+              return (
+                <div
+                  key={col}
+                  {...props}
+                  className={`absolute flex items-center border-b border-r px-3 whitespace-nowrap overflow-hidden ${props.className ?? ''}`}
+                  style={{ ...cellStyle(c, (r + 1) * rowHeight), ...props.style }}
+                >
+                  {renderCell(r, col, c)}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+});
+VirtualGrid.displayName = 'VirtualGrid';
+
+export default VirtualGrid;
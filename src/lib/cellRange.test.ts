@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { cellRange, clampRange, inRange, rangeBounds } from './cellRange';
+
+describe('셀 범위', () => {
+  it('anchor와 focus의 방향과 관계없이 경계를 구한다', () => {
+    const bounds = rangeBounds({ anchor: { row: 3, col: 0 }, focus: { row: 1, col: 2 } });
+    expect(bounds).toEqual({ top: 1, left: 0, bottom: 3, right: 2 });
+    expect(inRange(bounds, 2, 1)).toBe(true);
+    expect(inRange(bounds, 0, 1)).toBe(false);
+  });
+
+  it('행/컬럼이 줄면 범위를 표 안으로 당긴다', () => {
+    expect(clampRange({ anchor: { row: 5, col: 5 }, focus: { row: -1, col: 1 } }, 3, 2)).toEqual({
+      anchor: { row: 2, col: 1 },
+      focus: { row: 0, col: 1 },
+    });
+    expect(cellRange({ row: 1, col: 1 })).toEqual({ anchor: { row: 1, col: 1 }, focus: { row: 1, col: 1 } });
+  });
+});
@@ -0,0 +1,47 @@
+// 표의 셀 선택 범위. row는 행 번호, col은 화면에 보이는 컬럼 순서의 번호
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// anchor는 선택을 시작한 셀, focus는 Shift/드래그로 늘린 반대쪽 끝 (키보드 이동의 기준)
+export interface CellRange {
+  anchor: CellPosition;
+  focus: CellPosition;
+}
+
+export interface RangeBounds {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export function cellRange(cell: CellPosition): CellRange {
+  return { anchor: cell, focus: cell };
+}
+
+export function rangeBounds({ anchor, focus }: CellRange): RangeBounds {
+  return {
+    top: Math.min(anchor.row, focus.row),
+    left: Math.min(anchor.col, focus.col),
+    bottom: Math.max(anchor.row, focus.row),
+    right: Math.max(anchor.col, focus.col),
+  };
+}
+
+export function inRange(bounds: RangeBounds, row: number, col: number): boolean {
+  return row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right;
+}
+
+const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max - 1));
+
+export function clampCell(cell: CellPosition, rowCount: number, colCount: number): CellPosition {
+  return { row: clamp(cell.row, rowCount), col: clamp(cell.col, colCount) };
+}
+
+// 행/컬럼이 줄어든 뒤에도 범위가 표 안에 있도록 보정
+export function clampRange(range: CellRange, rowCount: number, colCount: number): CellRange {
+  return { anchor: clampCell(range.anchor, rowCount, colCount), focus: clampCell(range.focus, rowCount, colCount) };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyColumnMapping,
+  applyColumnMappingToNames,
+  applyColumnMappingToOrder,
+  findMappingCollisions,
+  suggestColumnMappings,
+  type ColumnMapping,
+} from './columnMapping';
+
+describe('applyColumnMapping', () => {
+  const mapping: ColumnMapping = {
+    e_mail: { action: 'map', target: 'email' },
+    nick: { action: 'rename', target: 'Nickname' },
+    tmp: { action: 'ignore', target: '' },
+  };
+
+  it('대응, 이름 변경, 무시를 적용한다', () => {
+    expect(applyColumnMapping([{ id: 1, e_mail: 'a@x', nick: 'n', tmp: 't' }], mapping)).toEqual([
+      { id: 1, email: 'a@x', nickname: 'n' },
+    ]);
+    expect(applyColumnMappingToOrder(['id', 'tmp', 'nick', 'e_mail'], mapping)).toEqual(['id', 'nickname', 'email']);
+    expect(applyColumnMappingToNames({ nick: 'Nick', e_mail: 'E_Mail' }, mapping)).toEqual({ nickname: 'Nickname', email: 'E_Mail' });
+  });
+
+  it('숫자 형태의 컬럼명도 순서를 유지한다', () => {
+    expect(applyColumnMappingToOrder(['name', '2024', 'e_mail', '1'], mapping)).toEqual(['name', '2024', 'email', '1']);
+    expect(applyColumnMappingToOrder(['2023', 'x'], { x: { action: 'map', target: '2023' } })).toEqual(['2023']);
+  });
+});
+
+describe('findMappingCollisions', () => {
+  it('대응한 이름이 그대로 둔 컬럼과 겹치면 찾는다', () => {
+    expect(findMappingCollisions(['email', 'e_mail'], { e_mail: { action: 'map', target: 'email' } })).toEqual({
+      email: ['email', 'e_mail'],
+    });
+  });
+
+  it('두 컬럼을 같은 이름으로 바꿔도 찾는다', () => {
+    const mapping: ColumnMapping = { a: { action: 'rename', target: 'X' }, b: { action: 'map', target: 'x' } };
+    expect(findMappingCollisions(['a', 'b'], mapping)).toEqual({ x: ['a', 'b'] });
+  });
+
+  it('겹치는 컬럼을 무시하거나 바꾸면 충돌이 없다', () => {
+    const mapping: ColumnMapping = {
+      e_mail: { action: 'map', target: 'email' },
+      email: { action: 'ignore', target: '' },
+    };
+    expect(findMappingCollisions(['email', 'e_mail'], mapping)).toEqual({});
+    expect(findMappingCollisions(['email', 'e_mail'], { email: { action: 'rename', target: 'old_email' }, e_mail: { action: 'map', target: 'email' } })).toEqual({});
+  });
+});
+
+describe('suggestColumnMappings', () => {
+  it('이름이나 값이 비슷한 Main 컬럼을 제안한다', () => {
+    const suggestions = suggestColumnMappings(
+      [{ id: 1, email: 'a@x', city: 'Seoul' }],
+      [{ id: 1, e_mail: 'b@x', town: 'Seoul' }]
+    );
+    expect(suggestions.map(s => [s.additional, s.main])).toEqual(
+      expect.arrayContaining([['e_mail', 'email'], ['town', 'city']])
+    );
+  });
+});
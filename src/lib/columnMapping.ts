@@ -0,0 +1,158 @@
+import type { TableRow } from './table';
+import type { ColumnSchema } from './schema';
+import { normalizeColumnName, type ColumnNames } from './columnNames';
+import { similarity } from './keyMatch';
+
+export type ColumnMappingAction = 'keep' | 'map' | 'rename' | 'ignore';
+
+// Additional Table 컬럼별 처리 방식. map/rename은 target 이름으로 바꿈
+export interface ColumnMappingEntry {
+  action: ColumnMappingAction;
+  target: string;
+}
+
+export type ColumnMapping = Record<string, ColumnMappingEntry>;
+
+export interface ColumnSuggestion {
+  additional: string;
+  main: string;
+  nameScore: number;
+  valueOverlap: number;
+  score: number;
+}
+
+const SUGGESTION_THRESHOLD = 0.6;
+const VALUE_SAMPLE_SIZE = 1000;
+
+function getColumns(table: TableRow[]): string[] {
+  const set = new Set<string>();
+  table.forEach(row => Object.keys(row).forEach(col => set.add(col)));
+  return Array.from(set);
+}
+
+// 구분자/대소문자 차이는 무시 (e_mail ≈ email)
+function normalizeName(name: string): string {
+  return name.normalize('NFC').toLowerCase().replace(/[\s_\-.]/g, '');
+}
+
+function valueSet(table: TableRow[], col: string): Set<string> {
+  const set = new Set<string>();
+  table.slice(0, VALUE_SAMPLE_SIZE).forEach(row => {
+    const value = row[col];
+    if (value !== undefined && value !== null && value !== '') set.add(String(value).trim());
+  });
+  return set;
+}
+
+// 겹침 계수: 작은 쪽 값 집합이 큰 쪽에 얼마나 포함되는지
+function overlapCoefficient(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let common = 0;
+  a.forEach(v => { if (b.has(v)) common++; });
+  return common / Math.min(a.size, b.size);
+}
+
+// Main에 없는 Additional 컬럼마다 이름 유사도와 값 겹침으로 대응 컬럼을 제안
+export function suggestColumnMappings(table1: TableRow[], table2: TableRow[]): ColumnSuggestion[] {
+  const cols1 = getColumns(table1);
+  const cols2 = getColumns(table2);
+  const only1 = cols1.filter(c => !cols2.includes(c));
+  const only2 = cols2.filter(c => !cols1.includes(c));
+  const values1 = new Map(only1.map(c => [c, valueSet(table1, c)]));
+  const candidates: ColumnSuggestion[] = [];
+  only2.forEach(additional => {
+    const values2 = valueSet(table2, additional);
+    only1.forEach(main => {
+      const nameScore = similarity(normalizeName(main), normalizeName(additional));
+      const valueOverlap = overlapCoefficient(values1.get(main)!, values2);
+      const score = Math.max(nameScore, valueOverlap);
+      if (score >= SUGGESTION_THRESHOLD) {
+        candidates.push({ additional, main, nameScore, valueOverlap, score });
+      }
+    });
+  });
+  const usedMain = new Set<string>();
+  const usedAdditional = new Set<string>();
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .filter(s => {
+      if (usedMain.has(s.main) || usedAdditional.has(s.additional)) return false;
+      usedMain.add(s.main);
+      usedAdditional.add(s.additional);
+      return true;
+    });
+}
+
+// 매핑 후 컬럼 이름 (무시하면 null)
+function mappedColumn(col: string, mapping: ColumnMapping): string | null {
+  const entry = mapping[col];
+  if (entry?.action === 'ignore') return null;
+  return entry && entry.action !== 'keep' && entry.target ? normalizeColumnName(entry.target) : col;
+}
+
+// 매핑 후 같은 이름이 되는 컬럼들 (예: e_mail → email인데 email도 그대로 사용). 매핑 후 이름 → 원래 컬럼들
+// 병합 시 한쪽 값이 다른 쪽을 덮어쓰므로 매핑할 때 막음
+export function findMappingCollisions(columns: string[], mapping: ColumnMapping): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  columns.forEach(col => {
+    const target = mappedColumn(col, mapping);
+    if (target !== null) (groups[target] ??= []).push(col);
+  });
+  return Object.fromEntries(Object.entries(groups).filter(([, cols]) => cols.length > 1));
+}
+
+export function applyColumnMapping(table: TableRow[], mapping: ColumnMapping): TableRow[] {
+  if (Object.keys(mapping).length === 0) return table;
+  return table.map(row => {
+    const newRow: TableRow = {};
+    Object.keys(row).forEach(col => {
+      const entry = mapping[col];
+      if (!entry || entry.action === 'keep') {
+        if (!(col in newRow)) newRow[col] = row[col];
+      } else if (entry.action !== 'ignore' && entry.target) {
+        newRow[normalizeColumnName(entry.target)] = row[col];
+      } else if (entry.action !== 'ignore') {
+        newRow[col] = row[col];
+      }
+    });
+    return newRow;
+  });
+}
+
+// 매핑 후 컬럼 이름. 무시한 컬럼은 null
+function mappedColumnName(col: string, mapping: ColumnMapping): string | null {
+  const entry = mapping[col];
+  if (!entry || entry.action === 'keep' || (entry.action !== 'ignore' && !entry.target)) return col;
+  return entry.action === 'ignore' ? null : normalizeColumnName(entry.target);
+}
+
+// 컬럼별 부가 정보(스키마, 원래 컬럼명 등)의 키를 매핑 결과에 맞춰 변경
+function applyColumnMappingToKeys<T>(record: Record<string, T>, mapping: ColumnMapping): Record<string, T> {
+  const mapped: Record<string, T> = {};
+  Object.keys(record).forEach(col => {
+    const target = mappedColumnName(col, mapping);
+    if (target !== null && (target !== col || !(col in mapped))) mapped[target] = record[col];
+  });
+  return mapped;
+}
+
+// 컬럼 순서도 매핑 결과 이름으로 (무시한 컬럼은 제외, 겹치는 이름은 처음 자리만).
+// 객체 키로 만들면 숫자 형태의 컬럼명("2024")이 앞으로 가므로 배열로 처리
+export function applyColumnMappingToOrder(order: string[], mapping: ColumnMapping): string[] {
+  const mapped = order.map(col => mappedColumnName(col, mapping)).filter((col): col is string => col !== null);
+  return Array.from(new Set(mapped));
+}
+
+export function applyColumnMappingToSchema(schema: ColumnSchema, mapping: ColumnMapping): ColumnSchema {
+  return applyColumnMappingToKeys(schema, mapping);
+}
+
+// 새 이름으로 바꾼 컬럼은 입력한 이름을 원래 컬럼명으로 사용
+export function applyColumnMappingToNames(names: ColumnNames, mapping: ColumnMapping): ColumnNames {
+  const mapped = applyColumnMappingToKeys(names, mapping);
+  Object.keys(mapping).forEach(col => {
+    const entry = mapping[col];
+    if (entry.action === 'rename' && entry.target) mapped[normalizeColumnName(entry.target)] = entry.target.trim();
+  });
+  return mapped;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { displayName, mergeColumnNames, normalizeRows, toDisplayRows } from './columnNames';
+
+describe('컬럼 이름', () => {
+  it('정규화 키로 바꾸고 원래 이름을 보관한다', () => {
+    const result = normalizeRows([{ ' User ID ': 1, Name: 'a' }]);
+    expect(result.rows).toEqual([{ 'user id': 1, name: 'a' }]);
+    expect(result.columnNames).toEqual({ 'user id': 'User ID', name: 'Name' });
+    expect(result.collisions).toEqual([]);
+  });
+
+  it('대소문자만 다른 이름은 번호를 붙여 구분하고 헤더 순서를 따른다', () => {
+    const result = normalizeRows([{ b: 1, Name: 'a', NAME: 'b' }], ['Name', 'NAME', 'b']);
+    expect(result.columns).toEqual(['name', 'name_2', 'b']);
+    expect(result.collisions).toEqual([{ names: ['Name', 'NAME'], keys: ['name', 'name_2'] }]);
+  });
+
+  it('앞선 이름이 우선하고 내보낼 때는 원래 이름을 쓴다', () => {
+    const names = mergeColumnNames({ id: 'ID' }, { id: 'Id', name: 'Name' });
+    expect(names).toEqual({ id: 'ID', name: 'Name' });
+    expect(displayName(names, 'other')).toBe('other');
+    expect(toDisplayRows([{ name: 'a', id: 1 }], ['id', 'name'], names)).toEqual([{ ID: 1, Name: 'a' }]);
+  });
+});
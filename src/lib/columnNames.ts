@@ -0,0 +1,78 @@
+import type { TableRow } from './table';
+
+// 행의 키는 매칭용 정규화 이름(소문자)이고, 화면/내보내기에 쓰는 원래 이름은 따로 보관
+// 정규화 키 → 원래 컬럼명
+export type ColumnNames = Record<string, string>;
+
+export function normalizeColumnName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function displayName(names: ColumnNames, key: string): string {
+  return names[key] ?? key;
+}
+
+// 대소문자만 다른 원래 이름들과 그에 배정한 키
+export interface ColumnCollision {
+  names: string[];
+  keys: string[];
+}
+
+// 원래 이름의 키로 변환. 정규화 이름이 겹치면 name_2, name_3 … 으로 구분
+// headers(원본의 헤더 순서)를 주면 columns가 그 순서를 따르고, 없으면 처음 나타난 순서
+export function normalizeRows(
+  rows: TableRow[],
+  headers: string[] = []
+): { rows: TableRow[]; columnNames: ColumnNames; columns: string[]; collisions: ColumnCollision[] } {
+  const keyOf = new Map<string, string>();
+  const columnNames: ColumnNames = {};
+  const groups = new Map<string, { names: string[]; keys: string[] }>();
+
+  const assign = (original: string) => {
+    const base = normalizeColumnName(original);
+    let key = base;
+    for (let n = 2; key in columnNames; n++) key = `${base}_${n}`;
+    keyOf.set(original, key);
+    columnNames[key] = original.trim();
+    const group = groups.get(base) ?? { names: [], keys: [] };
+    group.names.push(original);
+    group.keys.push(key);
+    groups.set(base, group);
+  };
+
+  headers.forEach(h => {
+    if (!keyOf.has(h)) assign(h);
+  });
+  const normalized = rows.map(row => {
+    const newRow: TableRow = {};
+    Object.keys(row).forEach(k => {
+      if (!keyOf.has(k)) assign(k);
+      newRow[keyOf.get(k)!] = row[k];
+    });
+    return newRow;
+  });
+  const collisions = Array.from(groups.values()).filter(g => g.names.length > 1);
+  return { rows: normalized, columnNames, columns: Array.from(keyOf.values()), collisions };
+}
+
+// 앞선 이름이 우선
+export function mergeColumnNames(...names: ColumnNames[]): ColumnNames {
+  const merged: ColumnNames = {};
+  names.forEach(map => {
+    Object.keys(map).forEach(key => {
+      if (!(key in merged)) merged[key] = map[key];
+    });
+  });
+  return merged;
+}
+
+// 내보내기용: columns 순서대로 원래 이름을 키로 하는 행
+export function toDisplayRows(rows: TableRow[], columns: string[], names: ColumnNames): TableRow[] {
+  return rows.map(row => {
+    const newRow: TableRow = {};
+    columns.forEach(col => {
+      newRow[displayName(names, col)] = row[col];
+    });
+    return newRow;
+  });
+}
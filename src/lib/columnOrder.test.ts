@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { insertColumnAfter, mergeColumnOrders, moveColumn, renameColumn, resolveColumnOrder } from './columnOrder';
+
+describe('컬럼 순서', () => {
+  it('저장된 순서 중 있는 컬럼을 먼저, 새 컬럼은 뒤에 붙인다', () => {
+    expect(resolveColumnOrder(['b', 'gone', 'a'], [{ a: 1, b: 2, c: 3 }])).toEqual(['b', 'a', 'c']);
+    expect(mergeColumnOrders(['a', 'b'], ['c', 'a'])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('행마다 컬럼이 다른 큰 표에서도 모든 컬럼을 한 번씩 찾는다', () => {
+    // 행마다 다른 컬럼 하나씩과, 드문드문 나타나는 컬럼
+    const rows = Array.from({ length: 20000 }, (_, i) => ({
+      id: i,
+      [`c${i % 50}`]: 'x',
+      ...(i % 7000 === 6999 ? { rare: 'y' } : {}),
+    }));
+    const order = resolveColumnOrder(['rare', 'c10', 'missing', 'id'], rows);
+    expect(order.slice(0, 3)).toEqual(['rare', 'c10', 'id']);
+    expect(order).toHaveLength(52);
+    expect(new Set(order).size).toBe(order.length);
+    expect(order.slice(3, 6)).toEqual(['c0', 'c1', 'c2']);
+    expect(resolveColumnOrder([], [], [{}, { a: 1 }], [{ b: 2, a: 3 }])).toEqual(['a', 'b']);
+  });
+
+  it('놓은 자리로 컬럼을 옮긴다', () => {
+    expect(moveColumn(['a', 'b', 'c'], 'a', 'c')).toEqual(['b', 'c', 'a']);
+    expect(moveColumn(['a', 'b', 'c'], 'c', 'a')).toEqual(['c', 'a', 'b']);
+    expect(moveColumn(['a', 'b'], 'x', 'a')).toEqual(['a', 'b']);
+  });
+
+  it('이름을 바꾸거나 바로 뒤에 넣어도 자리를 유지한다', () => {
+    expect(renameColumn(['a', 'b'], 'a', 'z')).toEqual(['z', 'b']);
+    expect(insertColumnAfter(['a', 'b'], 'a', 'n')).toEqual(['a', 'n', 'b']);
+    expect(insertColumnAfter(['a', 'b'], 'x', 'n')).toEqual(['a', 'b', 'n']);
+  });
+});
@@ -0,0 +1,47 @@
+import type { TableRow } from './table';
+
+// 테이블별 컬럼 순서는 정규화 키 배열로 보관
+// 행 객체의 키 순서는 숫자 이름 컬럼이 앞으로 오는 등 원본 순서와 다를 수 있음
+
+// 행에 나타난 순서대로 모든 컬럼
+export function getAllColumns(...tables: TableRow[][]): string[] {
+  const set = new Set<string>();
+  tables.forEach(table => table.forEach(row => Object.keys(row).forEach(col => set.add(col))));
+  return Array.from(set);
+}
+
+// 저장된 순서 중 실제 있는 컬럼을 먼저, 순서에 없는 컬럼은 처음 나타난 순서대로 뒤에 붙임
+export function resolveColumnOrder(order: string[], ...tables: TableRow[][]): string[] {
+  const available = getAllColumns(...tables);
+  const set = new Set(available);
+  const ordered = order.filter(col => set.has(col));
+  const placed = new Set(ordered);
+  return [...ordered, ...available.filter(col => !placed.has(col))];
+}
+
+// 앞선 순서가 우선하고 뒤 순서의 새 컬럼은 끝에 추가
+export function mergeColumnOrders(...orders: string[][]): string[] {
+  const merged = new Set<string>();
+  orders.forEach(order => order.forEach(col => merged.add(col)));
+  return Array.from(merged);
+}
+
+// column을 target 자리로 옮김 (target과 그 뒤 컬럼은 한 칸씩 밀림)
+export function moveColumn(order: string[], column: string, target: string): string[] {
+  if (column === target || !order.includes(column) || !order.includes(target)) return order;
+  const rest = order.filter(col => col !== column);
+  const from = order.indexOf(column);
+  const to = rest.indexOf(target) + (from < order.indexOf(target) ? 1 : 0);
+  return [...rest.slice(0, to), column, ...rest.slice(to)];
+}
+
+export function renameColumn(order: string[], oldCol: string, newCol: string): string[] {
+  return order.map(col => (col === oldCol ? newCol : col));
+}
+
+// column 바로 뒤에 newCol을 넣음 (column이 없으면 끝에)
+export function insertColumnAfter(order: string[], column: string, newCol: string): string[] {
+  const rest = order.filter(col => col !== newCol);
+  const idx = rest.indexOf(column);
+  return idx < 0 ? [...rest, newCol] : [...rest.slice(0, idx + 1), newCol, ...rest.slice(idx + 1)];
+}
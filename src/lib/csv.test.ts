@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCSV, parseCSVRecords, parseTSV, recordsToRows, toCSV, toTSV, uniqueHeaders } from './csv';
+
+describe('parseCSVRecords', () => {
+  it('따옴표 필드, 이스케이프, 필드 안 줄바꿈을 처리한다', () => {
+    expect(parseCSVRecords('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n\n1,')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+      ['1', ''],
+    ]);
+  });
+
+  it('닫히지 않은 따옴표는 오류다', () => {
+    expect(() => parseCSVRecords('"abc')).toThrow();
+  });
+});
+
+describe('구분자 감지', () => {
+  it('줄마다 개수가 일정한 구분자를 고른다', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3\n')).toBe(';');
+    expect(detectDelimiter('a\tb\n"x,y"\t2')).toBe('\t');
+    expect(detectDelimiter('single')).toBe(',');
+  });
+});
+
+describe('헤더와 행 변환', () => {
+  it('같은 헤더는 두 번째부터 번호를 붙인다', () => {
+    expect(uniqueHeaders([' id', 'name', 'name', 'name'])).toEqual(['id', 'name', 'name_1', 'name_2']);
+  });
+
+  it('첫 레코드를 헤더로 쓴다', () => {
+    expect(recordsToRows([['a', 'b'], ['1']])).toEqual([{ a: '1', b: '' }]);
+    expect(recordsToRows([['a']])).toEqual([]);
+    expect(parseCSV('a|b\n1|2')).toEqual([{ a: '1', b: '2' }]);
+  });
+});
+
+describe('toCSV', () => {
+  it('필요한 값만 따옴표로 감싸고 헤더 이름을 바꿀 수 있다', () => {
+    const csv = toCSV([{ a: 'x,y', b: 1 }, { a: ' pad', b: undefined }], ['a', 'b'], { headers: ['A', 'B'], bom: true });
+    expect(csv).toBe('\uFEFFA,B\r\n"x,y",1\r\n" pad",');
+  });
+
+  it('읽고 쓴 결과가 같다', () => {
+    const rows = [{ a: 'line\nbreak', b: 'quote "q"' }];
+    expect(parseCSV(toCSV(rows, ['a', 'b']), ',')).toEqual(rows);
+  });
+});
+
+describe('TSV (클립보드)', () => {
+  it('빈 줄을 빈 값 행으로 유지하고 끝 줄바꿈 하나는 무시한다', () => {
+    expect(parseTSV('a\tb\r\n\r\nc\r\n')).toEqual([['a', 'b'], [''], ['c']]);
+  });
+
+  it('탭과 줄바꿈이 있는 값은 따옴표로 감싼다', () => {
+    const values = [['a\tb', 'x'], ['line\n"q"', 2]];
+    expect(toTSV(values)).toBe('"a\tb"\tx\r\n"line\n""q"""\t2');
+    expect(parseTSV(toTSV(values))).toEqual([['a\tb', 'x'], ['line\n"q"', '2']]);
+  });
+});
@@ -0,0 +1,208 @@
+import type { ProgressHandler, TableRow } from './table';
+
+// RFC 4180 CSV 읽기/쓰기 (따옴표 필드, "" 이스케이프, 필드 내 줄바꿈, BOM)
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvDelimiterOption = CsvDelimiter | 'auto';
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiterOption, string> = {
+  auto: '자동 감지',
+  ',': '쉼표 (,)',
+  ';': '세미콜론 (;)',
+  '\t': '탭',
+  '|': '파이프 (|)',
+};
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+// 따옴표 밖의 구분자 개수를 앞쪽 몇 줄에서 세어, 줄마다 개수가 일정하고 가장 많은 후보를 선택
+export function detectDelimiter(text: string, sampleLines = 10): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number[]>(DELIMITERS.map(d => [d, [0]]));
+  let inQuotes = false;
+  let lines = 0;
+  for (let i = 0; i < text.length && lines < sampleLines; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      lines++;
+      counts.forEach(list => list.push(0));
+    } else if (!inQuotes && counts.has(ch as CsvDelimiter)) {
+      const list = counts.get(ch as CsvDelimiter)!;
+      list[list.length - 1]++;
+    }
+  }
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  counts.forEach((list, delimiter) => {
+    // 마지막 줄이 비어 있으면(끝 줄바꿈) 제외
+    const filled = list.length > 1 && list[list.length - 1] === 0 ? list.slice(0, -1) : list;
+    const first = filled[0];
+    if (first === 0) return;
+    const consistent = filled.filter(c => c === first).length / filled.length;
+    const score = first * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// 진행 상황을 알릴 글자 수 간격
+const PROGRESS_CHARS = 1 << 16;
+
+// 텍스트를 레코드(필드 배열) 목록으로 분리. 완전히 빈 줄은 건너뜀
+export function parseCSVRecords(text: string, delimiter: CsvDelimiter = ',', onProgress?: ProgressHandler): string[][] {
+  const src = stripBOM(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoted = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    quoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    if (onProgress && i % PROGRESS_CHARS === 0) onProgress(i, src.length);
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '' && !quoted) {
+      inQuotes = true;
+      quoted = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += ch;
+    }
+  }
+  if (inQuotes) throw new Error('닫히지 않은 따옴표가 있습니다.');
+  if (field !== '' || quoted || record.length > 0) endRecord();
+  return records;
+}
+
+// 헤더 레코드의 컬럼명 (원래 순서). 완전히 같은 헤더는 엑셀 가져오기와 같이
+// 첫 번째는 그대로 두고 두 번째부터 name_1, name_2 … 로 구분
+export function uniqueHeaders(record: string[]): string[] {
+  const seen = new Map<string, number>();
+  return record.map(h => {
+    const name = h.trim();
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name}_${count}`;
+  });
+}
+
+// 첫 레코드를 헤더로 사용해 레코드 → 테이블 변환 (값은 문자열 그대로, 모자란 값은 빈 문자열)
+export function recordsToRows(records: string[][]): TableRow[] {
+  if (records.length < 2) return [];
+  const headers = uniqueHeaders(records[0]);
+  return records.slice(1).map(values => {
+    const obj: TableRow = {};
+    headers.forEach((h, i) => {
+      obj[h] = values[i] ?? '';
+    });
+    return obj;
+  });
+}
+
+export function resolveDelimiter(text: string, delimiter: CsvDelimiterOption): CsvDelimiter {
+  return delimiter === 'auto' ? detectDelimiter(stripBOM(text)) : delimiter;
+}
+
+export function parseCSV(text: string, delimiter: CsvDelimiterOption = 'auto'): TableRow[] {
+  return recordsToRows(parseCSVRecords(text, resolveDelimiter(text, delimiter)));
+}
+
+function escapeField(value: TableRow[string], delimiter: CsvDelimiter): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  if (text.includes('"') || text.includes(delimiter) || /[\r\n]/.test(text) || /^\s|\s$/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export interface CsvWriteOptions {
+  delimiter?: CsvDelimiter;
+  bom?: boolean;
+  headers?: string[];
+}
+
+// headers를 주면 columns 대신 헤더 줄에 사용 (원래 컬럼명 등)
+export function toCSV(data: TableRow[], columns: string[], options: CsvWriteOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const header = (options.headers ?? columns).map(col => escapeField(col, delimiter)).join(delimiter);
+  const rows = data.map(row => columns.map(col => escapeField(row[col], delimiter)).join(delimiter));
+  return (options.bom ? '\uFEFF' : '') + [header, ...rows].join('\r\n');
+}
+
+// 내보내기에 사용할 구분자와 파일 확장자
+export function resolveExportDelimiter(option: CsvDelimiterOption): { delimiter: CsvDelimiter; extension: string } {
+  const delimiter = option === 'auto' ? ',' : option;
+  return { delimiter, extension: delimiter === '\t' ? 'tsv' : 'csv' };
+}
+
+// 클립보드용 TSV (스프레드시트 복사 형식). 빈 줄도 빈 값 한 칸짜리 행으로 유지하고 끝 줄바꿈 하나는 무시
+export function parseTSV(text: string): string[][] {
+  const src = text.replace(/\r?\n$/, '');
+  const records: string[][] = [[]];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === '\t') {
+      records[records.length - 1].push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      records[records.length - 1].push(field);
+      field = '';
+      records.push([]);
+    } else {
+      field += ch;
+    }
+  }
+  records[records.length - 1].push(field);
+  return records;
+}
+
+export function toTSV(values: TableRow[string][][]): string {
+  return values.map(record => record.map(value => escapeField(value, '\t')).join('\t')).join('\r\n');
+}
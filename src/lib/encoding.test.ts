@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, detectEncoding, encodeText } from './encoding';
+
+const bufferOf = (bytes: Uint8Array) => bytes.slice().buffer as ArrayBuffer;
+
+describe('인코딩', () => {
+  it('BOM과 UTF-16 바이트 패턴을 판별한다', () => {
+    expect(detectEncoding(encodeText('a', 'utf-8-bom'))).toBe('utf-8-bom');
+    expect(detectEncoding(encodeText('a', 'utf-16be'))).toBe('utf-16be');
+    expect(detectEncoding(encodeText('이름,값', 'utf-8'))).toBe('utf-8');
+  });
+
+  it('UTF-8이 아니면 CP949로 읽는다', () => {
+    const bytes = encodeText('이름,값', 'euc-kr');
+    expect(detectEncoding(bytes)).toBe('euc-kr');
+    expect(decodeText(bufferOf(bytes))).toEqual({ text: '이름,값', encoding: 'euc-kr' });
+  });
+
+  it('내보낸 바이트를 같은 텍스트로 다시 읽는다', () => {
+    (['utf-8', 'utf-8-bom', 'utf-16le', 'utf-16be', 'euc-kr'] as const).forEach(encoding => {
+      expect(decodeText(bufferOf(encodeText('한글 csv', encoding)), encoding).text).toBe('한글 csv');
+    });
+  });
+
+  it('CP949에 없는 문자는 ?로 바꾼다', () => {
+    expect(decodeText(bufferOf(encodeText('a😀', 'euc-kr')), 'euc-kr').text).toBe('a?');
+  });
+});
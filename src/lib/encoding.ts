@@ -0,0 +1,132 @@
+// 텍스트 파일 인코딩 감지와 변환 (한국어 엑셀/ERP의 CP949 CSV 대응)
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'euc-kr';
+export type ImportEncoding = TextEncoding | 'auto';
+
+export const IMPORT_ENCODING_LABELS: Record<ImportEncoding, string> = {
+  auto: '인코딩 자동 감지',
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8 (BOM)',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'euc-kr': 'CP949 / EUC-KR',
+};
+
+export const EXPORT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8 (BOM, 엑셀 호환)',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'euc-kr': 'CP949 / EUC-KR',
+};
+
+// BOM → UTF-16 패턴(한쪽 바이트가 대부분 0) → UTF-8 유효성 순으로 판단하고, 모두 아니면 CP949로 간주
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8-bom';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) return 'utf-16le';
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'euc-kr';
+  }
+}
+
+// TextDecoder의 euc-kr은 WHATWG 기준 CP949(확장 완성형)까지 포함
+const decoderLabel = (encoding: TextEncoding) => (encoding === 'utf-8-bom' ? 'utf-8' : encoding);
+
+export function decodeText(buffer: ArrayBuffer, encoding: ImportEncoding = 'auto'): { text: string; encoding: TextEncoding } {
+  const bytes = new Uint8Array(buffer);
+  const resolved = encoding === 'auto' ? detectEncoding(bytes) : encoding;
+  // TextDecoder가 해당 인코딩의 BOM을 제거함
+  const text = new TextDecoder(decoderLabel(resolved)).decode(bytes);
+  return { text, encoding: resolved };
+}
+
+// 유니코드 → CP949 역변환표. 브라우저에 EUC-KR 인코더가 없어 디코더로 한 번만 생성
+let cp949Table: Map<number, number> | null = null;
+
+function getCp949Table(): Map<number, number> {
+  if (cp949Table) return cp949Table;
+  const table = new Map<number, number>();
+  const decoder = new TextDecoder('euc-kr');
+  const pair = new Uint8Array(2);
+  for (let lead = 0x81; lead <= 0xfe; lead++) {
+    for (let trail = 0x41; trail <= 0xfe; trail++) {
+      pair[0] = lead;
+      pair[1] = trail;
+      const ch = decoder.decode(pair);
+      if (ch.length === 1 && ch !== '\uFFFD' && !table.has(ch.charCodeAt(0))) {
+        table.set(ch.charCodeAt(0), (lead << 8) | trail);
+      }
+    }
+  }
+  cp949Table = table;
+  return table;
+}
+
+// CP949에 없는 문자는 ?로 대체
+function encodeCp949(text: string): Uint8Array {
+  const table = getCp949Table();
+  const out: number[] = [];
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code < 0x80) {
+      out.push(code);
+    } else {
+      const mapped = table.get(code);
+      if (mapped === undefined) out.push(0x3f);
+      else out.push(mapped >> 8, mapped & 0xff);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+function encodeUtf16(text: string, littleEndian: boolean): Uint8Array {
+  const out = new Uint8Array((text.length + 1) * 2);
+  const view = new DataView(out.buffer);
+  view.setUint16(0, 0xfeff, littleEndian);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16((i + 1) * 2, text.charCodeAt(i), littleEndian);
+  }
+  return out;
+}
+
+// 내보내기용 바이트 변환. UTF-16은 엑셀이 인식하도록 BOM을 붙임
+export function encodeText(text: string, encoding: TextEncoding): Uint8Array {
+  switch (encoding) {
+    case 'utf-8-bom':
+      return new TextEncoder().encode('\uFEFF' + text);
+    case 'utf-16le':
+      return encodeUtf16(text, true);
+    case 'utf-16be':
+      return encodeUtf16(text, false);
+    case 'euc-kr':
+      return encodeCp949(text);
+    default:
+      return new TextEncoder().encode(text);
+  }
+}
+
+export function encodedMimeType(encoding: TextEncoding, type = 'text/csv'): string {
+  const charset = encoding === 'utf-8-bom' ? 'utf-8' : encoding;
+  return `${type};charset=${charset}`;
+}
+
+export function encodedBlob(text: string, encoding: TextEncoding, type = 'text/csv'): Blob {
+  return new Blob([encodeText(text, encoding)], { type: encodedMimeType(encoding, type) });
+}
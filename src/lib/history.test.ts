@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { emptyHistory, moveHistory, recordHistory, HISTORY_LIMIT } from './history';
+
+describe('되돌리기 기록', () => {
+  const recorded = recordHistory(recordHistory(emptyHistory<number>(), '첫 번째', 0), '두 번째', 1);
+
+  it('되돌리면 직전 상태를, 다시 실행하면 되돌리기 전 상태를 돌려준다', () => {
+    const undone = moveHistory(recorded, 2, 1);
+    expect(undone?.snapshot).toBe(1);
+    expect(undone?.history.future.map(e => [e.label, e.snapshot])).toEqual([['두 번째', 2]]);
+    expect(moveHistory(undone!.history, 1, -1)?.snapshot).toBe(2);
+  });
+
+  it('여러 단계를 한 번에 움직이고, 움직일 수 없으면 null', () => {
+    expect(moveHistory(recorded, 2, 5)?.snapshot).toBe(0);
+    expect(moveHistory(recorded, 2, -1)).toBeNull();
+    expect(moveHistory(emptyHistory<number>(), 0, 1)).toBeNull();
+  });
+
+  it('새 작업을 기록하면 다시 실행할 작업은 버린다', () => {
+    const undone = moveHistory(recorded, 2, 1)!;
+    expect(recordHistory(undone.history, '세 번째', 1).future).toEqual([]);
+  });
+
+  it(`최근 ${HISTORY_LIMIT}개까지만 보관한다`, () => {
+    let history = emptyHistory<number>();
+    for (let i = 0; i <= HISTORY_LIMIT; i++) history = recordHistory(history, String(i), i);
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].snapshot).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+// 되돌리기/다시 실행 기록
+// 각 항목은 작업 이름과 그 작업 직전의 상태. 행 배열은 변경 시 새로 만들므로 스냅샷끼리 행 객체를 공유함
+
+export interface HistoryEntry<T> {
+  label: string;
+  time: number;
+  snapshot: T;
+}
+
+// past의 마지막이 가장 최근 작업, future의 마지막이 다음에 다시 실행할 작업
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// 새 작업을 기록하면 다시 실행할 작업은 버림
+export function recordHistory<T>(history: History<T>, label: string, snapshot: T): History<T> {
+  return { past: [...history.past, { label, time: Date.now(), snapshot }].slice(-HISTORY_LIMIT), future: [] };
+}
+
+// steps > 0이면 그만큼 되돌리고 < 0이면 다시 실행. current는 지금 상태. 움직일 수 없으면 null
+export function moveHistory<T>(history: History<T>, current: T, steps: number): { history: History<T>; snapshot: T } | null {
+  const past = [...history.past];
+  const future = [...history.future];
+  let snapshot = current;
+  for (let i = 0; i < Math.abs(steps); i++) {
+    const [from, to] = steps > 0 ? [past, future] : [future, past];
+    const entry = from.pop();
+    if (!entry) break;
+    to.push({ ...entry, snapshot });
+    snapshot = entry.snapshot;
+  }
+  if (snapshot === current) return null;
+  return { history: { past, future }, snapshot };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { hasImportError, importData, importText, textSource } from './importers';
+
+describe('가져오기', () => {
+  it('내용으로 형식을 판별하고 컬럼명을 정규화한다', () => {
+    const result = importText('ID,Name\n1,a', { encoding: 'utf-8', delimiter: 'auto' });
+    expect(result).toMatchObject({ kind: 'table', format: 'csv', rows: [{ id: '1', name: 'a' }], columnNames: { id: 'ID', name: 'Name' } });
+  });
+
+  it('JSON Lines를 JSON보다 먼저 판별한다', () => {
+    expect(importText('{"a":1}\n{"a":2}', { encoding: 'utf-8', delimiter: 'auto' })).toMatchObject({ format: 'jsonl', rows: [{ a: 1 }, { a: 2 }] });
+  });
+
+  it('확장자와 내용이 다르면 경고한다', () => {
+    const result = importData({ ...textSource('[{"a":1}]'), name: 'data.csv' }, { encoding: 'utf-8', delimiter: 'auto' });
+    expect(result.kind === 'table' && result.format).toBe('json');
+    expect(result.issues.map(i => i.level)).toEqual(['warning']);
+  });
+
+  it('빈 내용과 대소문자만 다른 컬럼을 문제로 알린다', () => {
+    expect(hasImportError(importText('  ', { encoding: 'utf-8', delimiter: 'auto' }).issues)).toBe(true);
+    const result = importText('Name,NAME\na,b', { encoding: 'utf-8', delimiter: 'auto' });
+    expect(result).toMatchObject({ rows: [{ name: 'a', name_2: 'b' }] });
+    expect(result.issues[0].message).toContain('대소문자만 다른 컬럼');
+  });
+});
@@ -0,0 +1,279 @@
+import type * as XLSX from 'xlsx';
+import type { ProgressHandler, TableRow } from './table';
+import { CSV_DELIMITER_LABELS, parseCSVRecords, recordsToRows, resolveDelimiter, uniqueHeaders, type CsvDelimiterOption } from './csv';
+import { decodeText, type ImportEncoding } from './encoding';
+import { readWorkbook, WORKBOOK_EXTENSIONS } from './workbook';
+import { isSqliteFile, SQLITE_EXTENSIONS } from './sqlite';
+import { normalizeRows, type ColumnNames } from './columnNames';
+import { findRecordsPath, flattenRecord, getAtPath, isRecord, toCellValue } from './jsonRecords';
+
+// 가져오기 중 발견한 문제. error가 있으면 테이블에 반영하지 않음
+export interface ImportIssue {
+  level: 'warning' | 'error';
+  message: string;
+}
+
+export interface ImportOptions {
+  encoding: ImportEncoding;
+  delimiter: CsvDelimiterOption;
+  // 구분자 텍스트의 헤더 레코드 번호 (1부터). 앞쪽 제목 줄을 건너뛸 때 사용
+  headerRow?: number;
+  // JSON 문서 안의 레코드 배열 경로 (예: data.items). 비어 있으면 자동으로 찾음
+  recordsPath?: string;
+  // JSON 중첩 객체를 점 표기 컬럼으로 펼칠지 (기본 true)
+  flatten?: boolean;
+}
+
+// 가져올 원본. 파일이면 name이 파일명, 붙여넣기면 빈 문자열
+export interface ImportSource {
+  name: string;
+  buffer: ArrayBuffer;
+}
+
+// 통합 문서와 데이터베이스는 시트/테이블 선택이 필요하므로 행 대신 원본을 돌려줌
+// table의 rows는 정규화 키 기준이며 원래 컬럼명은 columnNames, 원본의 컬럼 순서는 columns에 있음
+export type ImportResult =
+  | { kind: 'table'; format: string; rows: TableRow[]; columnNames: ColumnNames; columns: string[]; issues: ImportIssue[] }
+  | { kind: 'workbook'; format: string; workbook: XLSX.WorkBook; issues: ImportIssue[] }
+  | { kind: 'database'; format: string; buffer: ArrayBuffer; issues: ImportIssue[] };
+
+// headers는 원본의 컬럼 순서를 알 수 있을 때만 (행 객체의 키 순서로는 알 수 없는 경우)
+type ParseResult =
+  | { kind: 'table'; format: string; rows: TableRow[]; headers?: string[]; issues: ImportIssue[] }
+  | Extract<ImportResult, { kind: 'workbook' | 'database' }>;
+
+export interface Importer {
+  id: string;
+  label: string;
+  extensions: string[];
+  // 내용으로 형식을 판별. 바이너리 파일이면 text는 빈 문자열
+  sniff: (bytes: Uint8Array, text: string) => boolean;
+  // 행의 키는 원래 컬럼명 그대로 돌려주고 정규화는 importData에서 처리
+  parse: (source: ImportSource, text: string, options: ImportOptions, onProgress?: ProgressHandler) => ParseResult;
+}
+
+const importers: Importer[] = [];
+
+// 먼저 등록한 importer가 내용 판별에서 우선 (구체적인 형식부터 등록)
+export function registerImporter(importer: Importer) {
+  const idx = importers.findIndex(i => i.id === importer.id);
+  if (idx >= 0) importers[idx] = importer;
+  else importers.push(importer);
+}
+
+export function getImporters(): Importer[] {
+  return [...importers];
+}
+
+// 파일 input의 accept 속성 값
+export function acceptedExtensions(): string {
+  return importers.flatMap(i => i.extensions).join(',');
+}
+
+function extensionOf(name: string): string {
+  const idx = name.lastIndexOf('.');
+  return idx >= 0 ? name.slice(idx).toLowerCase() : '';
+}
+
+function toRow(record: Record<string, unknown>, flatten: boolean): TableRow {
+  if (flatten) return flattenRecord(record);
+  const row: TableRow = {};
+  Object.keys(record).forEach(k => {
+    row[k] = toCellValue(record[k]);
+  });
+  return row;
+}
+
+function recordsFromArray(
+  items: unknown[],
+  describe: (idx: number) => string,
+  issues: ImportIssue[],
+  options: ImportOptions
+): TableRow[] {
+  const rows: TableRow[] = [];
+  items.forEach((item, idx) => {
+    if (isRecord(item)) rows.push(toRow(item, options.flatten !== false));
+    else issues.push({ level: 'warning', message: `${describe(idx)}: 객체가 아니어서 건너뛰었습니다.` });
+  });
+  return rows;
+}
+
+const startsWithBytes = (bytes: Uint8Array, signature: number[]) => signature.every((b, i) => bytes[i] === b);
+
+const jsonImporter: Importer = {
+  id: 'json',
+  label: 'JSON',
+  extensions: ['.json'],
+  sniff: (_bytes, text) => /^\s*[[{]/.test(text) && /[\]}]\s*$/.test(text),
+  parse: (_source, text, options) => {
+    const issues: ImportIssue[] = [];
+    const parsed: unknown = JSON.parse(text);
+    const fail = (message: string): ParseResult => ({ kind: 'table', format: 'json', rows: [], issues: [{ level: 'error', message }] });
+    let path = options.recordsPath?.trim() ?? '';
+    if (!path && !Array.isArray(parsed)) {
+      // 최상위가 객체이면 그 안의 레코드 배열을 찾고, 없으면 객체 하나를 한 행으로 읽음 (예: {"data": [...]})
+      const found = findRecordsPath(parsed);
+      if (found === null) {
+        if (!isRecord(parsed)) return fail('JSON 최상위 값이 배열이나 객체가 아닙니다.');
+        return { kind: 'table', format: 'json', rows: [toRow(parsed, options.flatten !== false)], issues };
+      }
+      path = found;
+      issues.push({ level: 'warning', message: `레코드 경로 '${path}'의 배열을 읽었습니다.` });
+    }
+    const items = path ? getAtPath(parsed, path) : parsed;
+    if (!Array.isArray(items)) return fail(`레코드 경로 '${path}'의 값이 배열이 아닙니다.`);
+    const rows = recordsFromArray(items, idx => `항목 ${idx + 1}`, issues, options);
+    return { kind: 'table', format: 'json', rows, issues };
+  },
+};
+
+const jsonLinesImporter: Importer = {
+  id: 'jsonl',
+  label: 'JSON Lines',
+  extensions: ['.jsonl', '.ndjson'],
+  // 두 줄 이상이고 첫 줄이 객체이며 앞쪽 줄 대부분이 한 줄 객체이면 JSON Lines (깨진 줄이 섞여 있어도 판별)
+  // 한 줄짜리는 중첩 레코드 배열을 담은 JSON 문서일 수 있으므로 JSON으로 읽음
+  sniff: (_bytes, text) => {
+    const lines = text.split(/\r?\n/).filter(l => l.trim() !== '').slice(0, 10);
+    const isObjectLine = (l: string) => /^\s*\{.*\}\s*$/.test(l);
+    return lines.length > 1 && isObjectLine(lines[0]) && lines.filter(isObjectLine).length / lines.length >= 0.7;
+  },
+  parse: (_source, text, options) => {
+    const issues: ImportIssue[] = [];
+    const items: unknown[] = [];
+    const lineNumbers: number[] = [];
+    text.split(/\r?\n/).forEach((line, idx) => {
+      if (line.trim() === '') return;
+      try {
+        items.push(JSON.parse(line));
+        lineNumbers.push(idx + 1);
+      } catch (e) {
+        issues.push({ level: 'warning', message: `${idx + 1}번째 줄: JSON 파싱 실패로 건너뛰었습니다 (${(e as Error).message})` });
+      }
+    });
+    const rows = recordsFromArray(items, idx => `${lineNumbers[idx]}번째 줄`, issues, options);
+    return { kind: 'table', format: 'jsonl', rows, issues };
+  },
+};
+
+const workbookImporter: Importer = {
+  id: 'workbook',
+  label: 'Excel / ODS',
+  extensions: WORKBOOK_EXTENSIONS,
+  // ZIP(xlsx/xlsm/ods) 또는 OLE(xls) 시그니처
+  sniff: bytes => startsWithBytes(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWithBytes(bytes, [0xd0, 0xcf, 0x11, 0xe0]),
+  parse: source => {
+    const workbook = readWorkbook(source.buffer);
+    if (workbook.SheetNames.length === 0) {
+      return { kind: 'table', format: 'workbook', rows: [], issues: [{ level: 'error', message: '시트가 없는 파일입니다.' }] };
+    }
+    return { kind: 'workbook', format: 'workbook', workbook, issues: [] };
+  },
+};
+
+// SQLite 파일은 WASM 엔진을 비동기로 불러와야 하므로 테이블 목록과 읽기는 호출하는 쪽에서 처리
+const sqliteImporter: Importer = {
+  id: 'sqlite',
+  label: 'SQLite',
+  extensions: SQLITE_EXTENSIONS,
+  sniff: bytes => isSqliteFile(bytes),
+  parse: source => ({ kind: 'database', format: 'sqlite', buffer: source.buffer, issues: [] }),
+};
+
+// 구분자 텍스트는 마지막 판별 대상 (대부분의 텍스트가 통과)
+const csvImporter: Importer = {
+  id: 'csv',
+  label: 'CSV / TSV',
+  extensions: ['.csv', '.tsv', '.txt'],
+  sniff: (bytes, text) => !bytes.subarray(0, 512).includes(0) && text.trim() !== '',
+  parse: (source, text, options, onProgress) => {
+    const issues: ImportIssue[] = [];
+    // .tsv는 자동 감지 대신 탭으로 고정
+    const option = options.delimiter === 'auto' && extensionOf(source.name) === '.tsv' ? '\t' : options.delimiter;
+    const delimiter = resolveDelimiter(text, option);
+    const records = parseCSVRecords(text, delimiter, onProgress).slice(Math.max(0, (options.headerRow ?? 1) - 1));
+    if (records.length >= 2) {
+      const width = records[0].length;
+      const ragged = records.slice(1).map((r, i) => (r.length !== width ? i + 2 : 0)).filter(n => n > 0);
+      if (ragged.length > 0) {
+        const list = ragged.slice(0, 10).join(', ') + (ragged.length > 10 ? ` 외 ${ragged.length - 10}개` : '');
+        issues.push({ level: 'warning', message: `필드 수가 헤더(${width}개)와 다른 레코드: ${list}` });
+      }
+      if (width === 1 && options.delimiter === 'auto') {
+        issues.push({ level: 'warning', message: `구분자를 찾지 못해 한 컬럼으로 읽었습니다 (${CSV_DELIMITER_LABELS[delimiter]}).` });
+      }
+    }
+    const headers = records.length > 0 ? uniqueHeaders(records[0]) : [];
+    return { kind: 'table', format: 'csv', rows: recordsToRows(records), headers, issues };
+  },
+};
+
+// 한 줄짜리 JSON 객체 목록이 JSON으로 오인되지 않도록 JSON Lines를 먼저 판별
+[workbookImporter, sqliteImporter, jsonLinesImporter, jsonImporter, csvImporter].forEach(registerImporter);
+
+// 컬럼명 정규화와 형식과 무관한 점검 (빈 테이블, 이름 없는 컬럼, 대소문자만 다른 컬럼)
+export function finalizeRows(
+  raw: TableRow[],
+  issues: ImportIssue[],
+  headers?: string[]
+): { rows: TableRow[]; columnNames: ColumnNames; columns: string[] } {
+  const { rows, columnNames, columns, collisions } = normalizeRows(raw, headers);
+  if (rows.length === 0 && !issues.some(i => i.level === 'error')) {
+    issues.push({ level: 'warning', message: '가져온 행이 없습니다.' });
+  }
+  if ('' in columnNames) {
+    issues.push({ level: 'warning', message: '이름이 없는 컬럼이 있습니다.' });
+  }
+  collisions.forEach(c => {
+    issues.push({ level: 'warning', message: `대소문자만 다른 컬럼 ${c.names.join(', ')}을(를) ${c.keys.join(', ')}(으)로 구분했습니다.` });
+  });
+  return { rows, columnNames, columns };
+}
+
+// 내용으로 판별한 형식을 우선하고, 판별되지 않으면 확장자로 선택
+export function importData(source: ImportSource, options: ImportOptions, onProgress?: ProgressHandler): ImportResult {
+  const issues: ImportIssue[] = [];
+  const bytes = new Uint8Array(source.buffer);
+  let text = '';
+  if (!workbookImporter.sniff(bytes, '') && !sqliteImporter.sniff(bytes, '')) {
+    const decoded = decodeText(source.buffer, options.encoding);
+    text = decoded.text;
+    if (text.trim() === '') {
+      return { kind: 'table', format: '', rows: [], columnNames: {}, columns: [], issues: [{ level: 'error', message: '내용이 비어 있습니다.' }] };
+    }
+    if (options.encoding === 'auto' && decoded.encoding !== 'utf-8' && decoded.encoding !== 'utf-8-bom') {
+      issues.push({ level: 'warning', message: `${decoded.encoding.toUpperCase()} 인코딩으로 읽었습니다.` });
+    }
+  }
+
+  const ext = extensionOf(source.name);
+  const byExtension = importers.find(i => i.extensions.includes(ext));
+  const importer = importers.find(i => i.sniff(bytes, text)) ?? byExtension;
+  if (!importer) {
+    return { kind: 'table', format: '', rows: [], columnNames: {}, columns: [], issues: [{ level: 'error', message: '지원하지 않는 파일 형식입니다.' }] };
+  }
+  if (byExtension && importer !== byExtension) {
+    issues.push({ level: 'warning', message: `확장자(${ext})와 달리 내용을 ${importer.label} 형식으로 판별해 읽었습니다.` });
+  }
+
+  try {
+    const result = importer.parse(source, text, options, onProgress);
+    const merged = [...issues, ...result.issues];
+    if (result.kind !== 'table') return { ...result, issues: merged };
+    const { headers, ...table } = result;
+    return { ...table, ...finalizeRows(result.rows, merged, headers), issues: merged };
+  } catch (e) {
+    return { kind: 'table', format: importer.id, rows: [], columnNames: {}, columns: [], issues: [...issues, { level: 'error', message: `${importer.label} 파싱 오류: ${(e as Error).message}` }] };
+  }
+}
+
+// 붙여넣은 텍스트를 파일과 같은 방식으로 읽기 위한 원본 (UTF-8로 인코딩)
+export function textSource(text: string): ImportSource {
+  return { name: '', buffer: new TextEncoder().encode(text).buffer as ArrayBuffer };
+}
+
+export function importText(text: string, options: ImportOptions): ImportResult {
+  return importData(textSource(text), { ...options, encoding: 'utf-8' });
+}
+
+export const hasImportError = (issues: ImportIssue[]) => issues.some(i => i.level === 'error');
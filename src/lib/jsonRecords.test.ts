@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { findRecordsPath, flattenRecord, getAtPath, isRecord, toCellValue, unflattenRow } from './jsonRecords';
+
+describe('레코드 경로', () => {
+  const doc = { meta: { count: 2 }, data: { results: [{ id: 1 }, { id: 2 }] } };
+
+  it('객체 항목이 있는 첫 배열을 찾는다', () => {
+    expect(findRecordsPath(doc)).toBe('data.results');
+    expect(findRecordsPath([{ a: 1 }])).toBe('');
+    expect(findRecordsPath({ a: [1, 2] })).toBeNull();
+  });
+
+  it('점 경로로 값을 읽는다', () => {
+    expect(getAtPath(doc, 'data.results.1.id')).toBe(2);
+    expect(getAtPath(doc, 'missing.path')).toBeUndefined();
+  });
+});
+
+describe('flattenRecord / unflattenRow', () => {
+  it('중첩 객체를 점 표기로 펼치고 다시 되돌린다', () => {
+    const record = { id: 1, address: { city: 'Seoul', geo: { lat: 37 } }, tags: ['a'], empty: {} };
+    const row = flattenRecord(record);
+    expect(row).toEqual({ id: 1, 'address.city': 'Seoul', 'address.geo.lat': 37, tags: '["a"]', empty: '' });
+    expect(unflattenRow(row)).toEqual({ id: 1, address: { city: 'Seoul', geo: { lat: 37 } }, tags: '["a"]', empty: '' });
+  });
+
+  it('값이 있는 키와 그 아래 키가 함께 있으면 둘 다 남긴다', () => {
+    expect(unflattenRow({ 'a.b': 1, a: 2 })).toEqual({ a: 2, 'a.b': 1 });
+    expect(unflattenRow({ a: 2, 'a.b': 1 })).toEqual({ a: 2, 'a.b': 1 });
+    expect(unflattenRow({ 'x.a.b': 1, 'x.a': 2, 'x.c': 3 })).toEqual({ x: { a: 2, c: 3 }, 'x.a.b': 1 });
+  });
+
+  it('빈 경로 조각이 있는 키는 펼친 그대로 둔다', () => {
+    expect(unflattenRow({ 'a..b': 1, '.c': 2 })).toEqual({ 'a..b': 1, '.c': 2 });
+  });
+});
+
+describe('값 변환', () => {
+  it('JSON 값을 셀 값으로 바꾼다', () => {
+    expect(toCellValue(null)).toBe('');
+    expect(toCellValue(true)).toBe('true');
+    expect(toCellValue([1])).toBe('[1]');
+    expect(isRecord([])).toBe(false);
+    expect(isRecord({})).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import type { TableRow } from './table';
+
+// JSON 문서 안의 레코드 배열 찾기와 중첩 객체 ↔ 점 표기 컬럼(address.city) 변환
+
+const MAX_SEARCH_DEPTH = 5;
+
+// 배열이 아닌 일반 객체 (JSON 객체)
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// JSON 값 → 셀 값 (배열과 펼치지 않은 객체는 JSON 문자열로 보관)
+export function toCellValue(value: unknown): TableRow[string] {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+// 점으로 구분한 경로의 값. 배열은 숫자 인덱스로 접근 (예: results.0.items)
+export function getAtPath(doc: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(part => part !== '')
+    .reduce<unknown>((value, part) => {
+      if (Array.isArray(value) && /^\d+$/.test(part)) return value[Number(part)];
+      return isRecord(value) ? value[part] : undefined;
+    }, doc);
+}
+
+// 객체 항목이 있는 첫 번째 배열의 경로 (얕은 곳부터 탐색). 없으면 null
+export function findRecordsPath(doc: unknown): string | null {
+  let level: { path: string; value: unknown }[] = [{ path: '', value: doc }];
+  for (let depth = 0; depth <= MAX_SEARCH_DEPTH && level.length > 0; depth++) {
+    const next: { path: string; value: unknown }[] = [];
+    for (const { path, value } of level) {
+      if (Array.isArray(value) && value.some(isRecord)) return path;
+      if (isRecord(value)) {
+        Object.keys(value).forEach(key => next.push({ path: path ? `${path}.${key}` : key, value: value[key] }));
+      }
+    }
+    level = next;
+  }
+  return null;
+}
+
+// 중첩 객체를 점 표기 컬럼으로 펼침. 배열은 그대로 JSON 문자열
+export function flattenRecord(record: Record<string, unknown>, prefix = '', row: TableRow = {}): TableRow {
+  Object.keys(record).forEach(key => {
+    const value = record[key];
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(value) && Object.keys(value).length > 0) flattenRecord(value, column, row);
+    else row[column] = isRecord(value) ? '' : toCellValue(value);
+  });
+  return row;
+}
+
+// 점 표기 키를 다시 중첩 객체로
+// 값이 있는 키(a)가 다른 키(a.b)의 상위 경로이면 둘 다 남도록 아래쪽 키는 펼친 이름 그대로 최상위에 둠
+export function unflattenRow(row: TableRow): Record<string, unknown> {
+  const keys = Object.keys(row);
+  const paths = new Set(keys);
+  const keepFlat = (parts: string[]) =>
+    parts.some(part => part === '') || parts.slice(0, -1).some((_, i) => paths.has(parts.slice(0, i + 1).join('.')));
+  const result: Record<string, unknown> = {};
+  const flat: [string, TableRow[string]][] = [];
+  keys.forEach(key => {
+    const parts = key.split('.');
+    if (keepFlat(parts)) {
+      flat.push([key, row[key]]);
+      return;
+    }
+    let node = result;
+    parts.slice(0, -1).forEach(part => {
+      if (!isRecord(node[part])) node[part] = {};
+      node = node[part] as Record<string, unknown>;
+    });
+    node[parts[parts.length - 1]] = row[key];
+  });
+  flat.forEach(([key, value]) => {
+    result[key] = value;
+  });
+  return result;
+}
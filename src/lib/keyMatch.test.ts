@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KEY_MATCH_OPTIONS, normalizeKeyValue, similarity } from './keyMatch';
+import { findFuzzyMatches, mergeTables } from './merge';
+
+const all = { ...DEFAULT_KEY_MATCH_OPTIONS, trim: true, caseFold: true, stripLeadingZeros: true, coerceString: true, nfc: true };
+
+describe('normalizeKeyValue', () => {
+  it('선택한 정규화만 적용한다', () => {
+    expect(normalizeKeyValue(' A01 ', DEFAULT_KEY_MATCH_OPTIONS)).toBe(' A01 ');
+    expect(normalizeKeyValue(' 007 ', all)).toBe('7');
+    expect(normalizeKeyValue(7, DEFAULT_KEY_MATCH_OPTIONS)).toBe(7);
+    expect(normalizeKeyValue(7, all)).toBe('7');
+    expect(normalizeKeyValue('가', all)).toBe('가');
+  });
+
+  it('정규화한 키로 행을 매칭한다', () => {
+    const { rows } = mergeTables([{ id: '007', a: 1 }], [{ id: 7, b: 2 }], { keys: ['id'], keyMatch: all });
+    expect(rows).toEqual([{ id: '007', a: 1, b: 2 }]);
+  });
+});
+
+describe('퍼지 매칭', () => {
+  it('편집 거리 유사도를 계산한다', () => {
+    expect(similarity('abc', 'abc')).toBe(1);
+    expect(similarity('abcd', 'abce')).toBe(0.75);
+    expect(similarity('', '')).toBe(1);
+  });
+
+  it('일치하지 않는 키끼리 유사도가 높은 순으로 1:1 후보를 찾는다', () => {
+    const options = { ...DEFAULT_KEY_MATCH_OPTIONS, fuzzy: true, fuzzyThreshold: 0.7 };
+    const matches = findFuzzyMatches(
+      [{ name: 'Samsung Electronics' }, { name: 'LG Chem' }, { name: 'Same' }],
+      [{ name: 'Samsung Electronic' }, { name: 'Same' }, { name: 'Kakao' }],
+      ['name'],
+      options
+    );
+    expect(matches.map(m => [m.mainLabel, m.additionalLabel])).toEqual([['Samsung Electronics', 'Samsung Electronic']]);
+  });
+});
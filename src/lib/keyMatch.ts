@@ -0,0 +1,64 @@
+import type { TableRow } from './table';
+
+// 병합 키 비교 전 정규화 옵션과 퍼지 매칭 설정
+export interface KeyMatchOptions {
+  trim: boolean;
+  caseFold: boolean;
+  stripLeadingZeros: boolean;
+  coerceString: boolean;
+  nfc: boolean;
+  fuzzy: boolean;
+  fuzzyThreshold: number;
+}
+
+export const DEFAULT_KEY_MATCH_OPTIONS: KeyMatchOptions = {
+  trim: false,
+  caseFold: false,
+  stripLeadingZeros: false,
+  coerceString: false,
+  nfc: false,
+  fuzzy: false,
+  fuzzyThreshold: 0.8,
+};
+
+export const KEY_NORMALIZATION_LABELS: Record<Exclude<keyof KeyMatchOptions, 'fuzzy' | 'fuzzyThreshold'>, string> = {
+  trim: '앞뒤 공백 제거',
+  caseFold: '대소문자 무시',
+  stripLeadingZeros: '앞자리 0 제거',
+  coerceString: '숫자/문자 구분 안 함',
+  nfc: '유니코드 NFC (한글)',
+};
+
+export function normalizeKeyValue(value: TableRow[string], options: KeyMatchOptions): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number' && !options.coerceString) return value;
+  let text = String(value);
+  if (options.trim) text = text.trim();
+  if (options.nfc) text = text.normalize('NFC');
+  if (options.caseFold) text = text.toLowerCase();
+  if (options.stripLeadingZeros) text = text.replace(/^0+(?=\d)/, '');
+  return text;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+// 편집 거리 기반 유사도 (0 ~ 1)
+export function similarity(a: string, b: string): number {
+  const maxLen = Math.max(a.length, b.length);
+  if (maxLen === 0) return 1;
+  return 1 - levenshtein(a, b) / maxLen;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyConflictResolutions,
+  findDuplicateKeys,
+  getKeyLabel,
+  getRowKey,
+  mergeSources,
+  mergeTables,
+  resolveConflict,
+  resolveDuplicates,
+  DEFAULT_CONFLICT_OPTIONS,
+  type ConflictOptions,
+  type ConflictPolicy,
+  type JoinType,
+} from './merge';
+
+describe('복합 키', () => {
+  it('여러 컬럼 값의 튜플로 키를 만든다', () => {
+    expect(getRowKey({ a: '1', b: 'x' }, ['a', 'b'])).toBe(getRowKey({ a: '1', b: 'x', c: 'y' }, ['A', 'B']));
+    expect(getRowKey({ a: '1', b: 'x' }, ['a', 'b'])).not.toBe(getRowKey({ a: '1x', b: '' }, ['a', 'b']));
+    expect(getKeyLabel({ a: '1', b: 'x' }, ['a', 'b'])).toBe('1 / x');
+  });
+
+  it('모든 기준 컬럼이 같은 행만 병합한다', () => {
+    const { rows } = mergeTables(
+      [{ a: '1', b: 'x', v: 'main' }, { a: '1', b: 'y', v: 'main2' }],
+      [{ a: '1', b: 'y', w: 'add' }],
+      { keys: ['a', 'b'] }
+    );
+    expect(rows).toEqual([{ a: '1', b: 'x', v: 'main' }, { a: '1', b: 'y', v: 'main2', w: 'add' }]);
+  });
+
+  it('키가 없으면 중복도 없다', () => {
+    expect(findDuplicateKeys([{ a: 1 }, { a: 1 }], [])).toEqual([]);
+  });
+});
+
+describe('조인 방식', () => {
+  const main = [{ id: '1', a: 'm1' }, { id: '2', a: 'm2' }];
+  const additional = [{ id: '2', b: 'a2' }, { id: '3', b: 'a3' }];
+  const ids = (joinType: JoinType) => mergeTables(main, additional, { keys: ['id'], joinType }).rows.map(row => row.id);
+
+  it('full은 양쪽 행을 모두 남긴다', () => {
+    expect(ids('full')).toEqual(['1', '2', '3']);
+  });
+
+  it('inner는 양쪽에 있는 키만 남긴다', () => {
+    expect(mergeTables(main, additional, { keys: ['id'], joinType: 'inner' }).rows).toEqual([{ id: '2', a: 'm2', b: 'a2' }]);
+  });
+
+  it('left/right는 한쪽 테이블 순서를 기준으로 한다', () => {
+    expect(ids('left')).toEqual(['1', '2']);
+    expect(ids('right')).toEqual(['2', '3']);
+  });
+
+  it('anti 조인은 반대쪽에 없는 행만 남긴다', () => {
+    expect(ids('leftAnti')).toEqual(['1']);
+    expect(ids('rightAnti')).toEqual(['3']);
+  });
+});
+
+describe('충돌 정책', () => {
+  const options = (policies: Record<string, ConflictPolicy>): ConflictOptions => ({ ...DEFAULT_CONFLICT_OPTIONS, policies });
+  const resolve = (policy: ConflictPolicy, v1: string | number, v2: string | number) =>
+    resolveConflict('v', { v: v1 }, { v: v2 }, options({ v: policy }));
+
+  it('기본은 비어있지 않은 Additional 값', () => {
+    expect(resolveConflict('v', { v: 'a' }, { v: 'b' }, DEFAULT_CONFLICT_OPTIONS)).toBe('b');
+    expect(resolveConflict('v', { v: 'a' }, { v: '' }, DEFAULT_CONFLICT_OPTIONS)).toBe('a');
+    expect(resolve('nonEmptyMain', '', 'b')).toBe('b');
+    expect(resolve('main', 'a', 'b')).toBe('a');
+  });
+
+  it('숫자 정책은 숫자가 아닌 값이 섞이면 nonEmpty로 대체한다', () => {
+    expect(resolve('max', '3', 5)).toBe(5);
+    expect(resolve('min', '3', 5)).toBe(3);
+    expect(resolve('sum', '3', 5)).toBe(8);
+    expect(resolve('sum', 'x', 5)).toBe(5);
+  });
+
+  it('concat은 같은 값을 한 번만 쓴다', () => {
+    expect(resolve('concat', 'a', 'b')).toBe('a, b');
+    expect(resolve('concat', 'a', ' a ')).toBe('a');
+  });
+
+  it('newer는 타임스탬프 컬럼이 늦은 쪽 값', () => {
+    const conflict = { ...options({ v: 'newer' }), timestampColumn: 'at' };
+    expect(resolveConflict('v', { v: 'old', at: '2024-02-01' }, { v: 'new', at: '2024-01-01' }, conflict)).toBe('old');
+    expect(resolveConflict('v', { v: 'old', at: '2024-01-01' }, { v: 'new', at: '2024-02-01' }, conflict)).toBe('new');
+  });
+});
+
+describe('충돌 검토', () => {
+  const { rows, conflicts } = mergeTables([{ id: '1', v: 'a', w: '' }], [{ id: '1', v: 'b', w: 'x' }], { keys: ['id'] });
+
+  it('양쪽 값이 모두 있고 다른 셀만 충돌로 기록한다', () => {
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ rowIndex: 0, keyLabel: '1', column: 'v', mainValue: 'a', additionalValue: 'b', policyValue: 'b' });
+  });
+
+  it('선택한 값을 병합 결과에 반영한다', () => {
+    expect(applyConflictResolutions(rows, [{ ...conflicts[0], choice: 'main' }])[0].v).toBe('a');
+    expect(applyConflictResolutions(rows, [{ ...conflicts[0], choice: 'custom', customValue: 'c' }])[0].v).toBe('c');
+    expect(applyConflictResolutions(rows, conflicts)).toEqual([{ id: '1', v: 'b', w: 'x' }]);
+  });
+});
+
+describe('중복 키', () => {
+  const table = [{ id: '1', v: '1' }, { id: '2', v: 'x' }, { id: '1', v: '2' }];
+
+  it('같은 키의 행 번호를 1부터 센다', () => {
+    expect(findDuplicateKeys(table, ['id'])).toEqual([{ keyLabel: '1', rowNumbers: [1, 3] }]);
+  });
+
+  it('전략에 따라 한 행으로 정리한다', () => {
+    expect(resolveDuplicates(table, ['id'], 'first')).toEqual([{ id: '1', v: '1' }, { id: '2', v: 'x' }]);
+    expect(resolveDuplicates(table, ['id'], 'last')).toEqual([{ id: '1', v: '2' }, { id: '2', v: 'x' }]);
+    const sum = { ...DEFAULT_CONFLICT_OPTIONS, policies: { v: 'sum' as const } };
+    expect(resolveDuplicates(table, ['id'], 'aggregate', sum)).toEqual([{ id: '1', v: 3 }, { id: '2', v: 'x' }]);
+  });
+
+  it('oneToMany는 일치하는 모든 조합을 만든다', () => {
+    const { rows } = mergeTables([{ id: '1', a: 'm' }], table, { keys: ['id'], joinType: 'left', duplicates: 'oneToMany' });
+    expect(rows).toEqual([{ id: '1', a: 'm', v: '1' }, { id: '1', a: 'm', v: '2' }]);
+  });
+});
+
+describe('여러 소스 병합', () => {
+  const sources = [
+    { name: 'A', rows: [{ id: '1', v: 'a', w: '' }] },
+    { name: 'B', rows: [{ id: '1', v: 'b', w: 'b' }, { id: '2', v: 'b2' }] },
+    { name: 'C', rows: [{ id: '1', v: 'c', w: 'c' }] },
+  ];
+
+  it('순차 병합은 뒤 소스 값이 덮어쓴다', () => {
+    const { rows, provenance } = mergeSources(sources, { keys: ['id'], duplicates: 'first' });
+    expect(rows).toEqual([{ id: '1', v: 'c', w: 'c' }, { id: '2', v: 'b2' }]);
+    expect(provenance[0].sources).toEqual(['A', 'B', 'C']);
+    expect(provenance[1].sources).toEqual(['B']);
+  });
+
+  it('우선순위 병합은 앞 소스 값을 유지하고 빈 값만 채운다', () => {
+    const { rows, conflicts } = mergeSources(sources, { keys: ['id'], duplicates: 'first', mode: 'priority' });
+    expect(rows[0]).toEqual({ id: '1', v: 'a', w: 'b' });
+    // 같은 셀의 충돌은 마지막 단계 것만 남음
+    expect(conflicts.map(c => [c.source, c.column, c.policyValue])).toEqual([['C', 'v', 'a'], ['C', 'w', 'b']]);
+  });
+});
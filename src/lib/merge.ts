@@ -0,0 +1,582 @@
+import type { ProgressHandler, TableRow } from './table';
+import { normalizeKeyValue, similarity, DEFAULT_KEY_MATCH_OPTIONS, type KeyMatchOptions } from './keyMatch';
+
+export type JoinType = 'full' | 'inner' | 'left' | 'right' | 'leftAnti' | 'rightAnti';
+
+export const JOIN_TYPE_LABELS: Record<JoinType, string> = {
+  full: 'Full outer (전체)',
+  inner: 'Inner (공통)',
+  left: 'Left (Main 기준)',
+  right: 'Right (Additional 기준)',
+  leftAnti: 'Left anti (Main에만 있음)',
+  rightAnti: 'Right anti (Additional에만 있음)',
+};
+
+export type ConflictPolicy = 'nonEmpty' | 'nonEmptyMain' | 'main' | 'additional' | 'max' | 'min' | 'sum' | 'concat' | 'newer';
+
+export const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  nonEmpty: '비어있지 않은 값 (Additional 우선)',
+  nonEmptyMain: '비어있지 않은 값 (Main 우선)',
+  main: 'Main 유지',
+  additional: 'Additional 사용',
+  max: '최대값',
+  min: '최소값',
+  sum: '합계',
+  concat: '문자열 연결',
+  newer: '최신 값 (타임스탬프 기준)',
+};
+
+// 컬럼별 충돌 정책. policies에 없는 컬럼은 defaultPolicy(기본 nonEmpty)를 따름
+export interface ConflictOptions {
+  policies: Record<string, ConflictPolicy>;
+  defaultPolicy?: ConflictPolicy;
+  separator: string;
+  timestampColumn: string;
+}
+
+export const DEFAULT_CONFLICT_OPTIONS: ConflictOptions = {
+  policies: {},
+  separator: ', ',
+  timestampColumn: '',
+};
+
+export type MergeMode = 'sequential' | 'priority';
+
+export const MERGE_MODE_LABELS: Record<MergeMode, string> = {
+  sequential: '순차 병합 (뒤 소스가 덮어씀)',
+  priority: '우선순위 병합 (위 소스 우선)',
+};
+
+export type DuplicateStrategy = 'error' | 'first' | 'last' | 'aggregate' | 'oneToMany';
+
+export const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  error: '중복 시 병합 중단',
+  first: '첫 번째 행 유지',
+  last: '마지막 행 유지',
+  aggregate: '충돌 정책으로 집계',
+  oneToMany: '모든 조합 생성 (1:N)',
+};
+
+export interface MergeOptions {
+  keys: string[];
+  joinType?: JoinType;
+  conflict?: ConflictOptions;
+  duplicates?: DuplicateStrategy;
+  keyMatch?: KeyMatchOptions;
+  // 퍼지 매칭으로 확인된 Additional 키 → Main 키
+  keyAliases?: Record<string, string>;
+  onProgress?: ProgressHandler;
+}
+
+// 진행 상황을 알릴 행 간격
+const PROGRESS_ROWS = 1000;
+
+// N개 소스 병합용. keyAliases는 이 소스의 키 → 첫 번째(Main) 소스 키
+export interface MergeSource {
+  name: string;
+  rows: TableRow[];
+  keyAliases?: Record<string, string>;
+}
+
+// 셀 값의 출처. overwritten이 있으면 이전 값을 덮어쓴 셀
+export interface CellProvenance {
+  source: string;
+  original: TableRow[string];
+  overwritten?: TableRow[string];
+}
+
+// sources는 이 행에 값을 제공한 소스 목록 (2개 이상이면 매칭된 행)
+export interface RowProvenance {
+  sources: string[];
+  cells: Record<string, CellProvenance>;
+}
+
+export interface SourcesMergeResult {
+  rows: TableRow[];
+  conflicts: MergeConflict[];
+  provenance: RowProvenance[];
+}
+
+export interface FuzzyMatch {
+  mainKey: string;
+  additionalKey: string;
+  mainLabel: string;
+  additionalLabel: string;
+  similarity: number;
+  // 여러 소스를 병합할 때 후보가 속한 소스
+  sourceId?: string;
+  source?: string;
+}
+
+// 같은 키를 가진 행들. rowNumbers는 1부터 시작하는 데이터 행 번호
+export interface DuplicateKey {
+  keyLabel: string;
+  rowNumbers: number[];
+}
+
+// 복합 키: 여러 기준 컬럼 값의 튜플을 하나의 문자열로 직렬화
+export function getRowKey(row: TableRow, keys: string[], keyMatch: KeyMatchOptions = DEFAULT_KEY_MATCH_OPTIONS): string {
+  return JSON.stringify(keys.map(k => normalizeKeyValue(row[k.toLowerCase()], keyMatch)));
+}
+
+export function getKeyLabel(row: TableRow, keys: string[]): string {
+  return keys.map(k => String(row[k.toLowerCase()] ?? '')).join(' / ');
+}
+
+export function findDuplicateKeys(
+  table: TableRow[],
+  keys: string[],
+  keyMatch: KeyMatchOptions = DEFAULT_KEY_MATCH_OPTIONS
+): DuplicateKey[] {
+  if (keys.length === 0) return [];
+  const groups = new Map<string, number[]>();
+  table.forEach((row, i) => {
+    const rowKey = getRowKey(row, keys, keyMatch);
+    const rows = groups.get(rowKey);
+    if (rows) rows.push(i + 1);
+    else groups.set(rowKey, [i + 1]);
+  });
+  return Array.from(groups.values())
+    .filter(rowNumbers => rowNumbers.length > 1)
+    .map(rowNumbers => ({ keyLabel: getKeyLabel(table[rowNumbers[0] - 1], keys), rowNumbers }));
+}
+
+function isEmpty(value: TableRow[string] | null): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function toNumber(value: TableRow[string]): number | null {
+  if (isEmpty(value)) return null;
+  const num = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(num) ? num : null;
+}
+
+function toTime(value: TableRow[string]): number | null {
+  if (isEmpty(value)) return null;
+  if (typeof value === 'number') return value;
+  const time = Date.parse(value as string);
+  return isNaN(time) ? null : time;
+}
+
+export function resolveConflict(
+  col: string,
+  row1: TableRow,
+  row2: TableRow,
+  options: ConflictOptions
+): TableRow[string] {
+  const v1 = row1[col];
+  const v2 = row2[col];
+  const nonEmpty = isEmpty(v2) ? v1 : v2;
+  const policy = options.policies[col] ?? options.defaultPolicy ?? 'nonEmpty';
+  switch (policy) {
+    case 'nonEmptyMain':
+      return isEmpty(v1) ? v2 : v1;
+    case 'main':
+      return v1;
+    case 'additional':
+      return v2;
+    case 'max':
+    case 'min':
+    case 'sum': {
+      const n1 = toNumber(v1);
+      const n2 = toNumber(v2);
+      // 숫자가 아닌 값이 섞여 있으면 nonEmpty로 대체
+      if (n1 === null || n2 === null) return nonEmpty;
+      if (policy === 'max') return Math.max(n1, n2);
+      if (policy === 'min') return Math.min(n1, n2);
+      return n1 + n2;
+    }
+    case 'concat':
+      if (isEmpty(v1) || isEmpty(v2)) return nonEmpty;
+      if (String(v1).trim() === String(v2).trim()) return v1;
+      return `${v1}${options.separator}${v2}`;
+    case 'newer': {
+      const t1 = options.timestampColumn ? toTime(row1[options.timestampColumn]) : null;
+      const t2 = options.timestampColumn ? toTime(row2[options.timestampColumn]) : null;
+      if (t1 === null || t2 === null) return nonEmpty;
+      const newer = t2 >= t1 ? v2 : v1;
+      const older = t2 >= t1 ? v1 : v2;
+      return isEmpty(newer) ? older : newer;
+    }
+    default:
+      return nonEmpty;
+  }
+}
+
+export type ConflictChoice = 'policy' | 'main' | 'additional' | 'custom';
+
+// Main/Additional 값이 서로 다른 셀. rowIndex는 병합 결과 기준
+export interface MergeConflict {
+  rowIndex: number;
+  keyLabel: string;
+  column: string;
+  mainValue: TableRow[string];
+  additionalValue: TableRow[string];
+  policyValue: TableRow[string];
+  choice: ConflictChoice;
+  customValue: TableRow[string];
+  // 충돌이 발생한 병합 단계의 추가 소스 이름과 그 직전 셀 출처
+  source?: string;
+  mainProvenance?: CellProvenance;
+}
+
+// 병합 결과 행이 어느 입력 행에서 왔는지 (원본 테이블 인덱스)
+export interface RowLineage {
+  left: number | null;
+  right: number | null;
+}
+
+export interface MergeResult {
+  rows: TableRow[];
+  conflicts: MergeConflict[];
+  lineage: RowLineage[];
+}
+
+// row1에 row2를 병합. 양쪽에 모두 있는 컬럼은 충돌 정책으로 결정 (기준 컬럼 제외)
+function mergeRow(
+  row1: TableRow,
+  row2: TableRow,
+  keys: string[],
+  options: ConflictOptions,
+  onConflict: (column: string, policyValue: TableRow[string]) => void
+): TableRow {
+  const mergedRow: TableRow = { ...row1 };
+  Object.keys(row2).forEach(col => {
+    if (keys.includes(col)) return;
+    if (col in row1) {
+      mergedRow[col] = resolveConflict(col, row1, row2, options);
+      if (!isEmpty(row1[col]) && !isEmpty(row2[col]) && String(row1[col]).trim() !== String(row2[col]).trim()) {
+        onConflict(col, mergedRow[col]);
+      }
+    } else if (!isEmpty(row2[col])) {
+      mergedRow[col] = row2[col];
+    }
+  });
+  return mergedRow;
+}
+
+interface IndexedRow {
+  row: TableRow;
+  // 원본 테이블에서의 위치 (집계된 행은 첫 번째 행 위치)
+  index: number;
+}
+
+function dedupe(
+  table: TableRow[],
+  keys: string[],
+  strategy: DuplicateStrategy,
+  conflict: ConflictOptions,
+  keyMatch: KeyMatchOptions
+): IndexedRow[] {
+  const indexed = table.map((row, index) => ({ row, index }));
+  if (strategy === 'oneToMany' || strategy === 'error') return indexed;
+  const keyCols = keys.map(k => k.toLowerCase());
+  const byKey = new Map<string, number>();
+  const result: IndexedRow[] = [];
+  indexed.forEach(entry => {
+    const rowKey = getRowKey(entry.row, keys, keyMatch);
+    const idx = byKey.get(rowKey);
+    if (idx === undefined) {
+      byKey.set(rowKey, result.length);
+      result.push(entry);
+    } else if (strategy === 'last') {
+      result[idx] = entry;
+    } else if (strategy === 'aggregate') {
+      result[idx] = { row: mergeRow(result[idx].row, entry.row, keyCols, conflict, () => {}), index: result[idx].index };
+    }
+  });
+  return result;
+}
+
+// 중복 키를 하나의 행으로 정리. 결과 행은 첫 번째 등장 위치를 유지
+// 'error'는 호출 측에서 findDuplicateKeys로 미리 확인하므로 여기서는 그대로 반환
+export function resolveDuplicates(
+  table: TableRow[],
+  keys: string[],
+  strategy: DuplicateStrategy,
+  conflict: ConflictOptions = DEFAULT_CONFLICT_OPTIONS,
+  keyMatch: KeyMatchOptions = DEFAULT_KEY_MATCH_OPTIONS
+): TableRow[] {
+  if (strategy === 'oneToMany' || strategy === 'error') return table;
+  return dedupe(table, keys, strategy, conflict, keyMatch).map(entry => entry.row);
+}
+
+// 키 → 행 인덱스 (같은 키는 첫 번째 행 사용)
+export function indexByKey(
+  table: TableRow[],
+  keys: string[],
+  keyMatch: KeyMatchOptions = DEFAULT_KEY_MATCH_OPTIONS,
+  keyAliases: Record<string, string> = {}
+): Map<string, TableRow> {
+  const index = new Map<string, TableRow>();
+  table.forEach(row => {
+    const rawKey = getRowKey(row, keys, keyMatch);
+    const rowKey = keyAliases[rawKey] ?? rawKey;
+    if (!index.has(rowKey)) index.set(rowKey, row);
+  });
+  return index;
+}
+
+function groupByKey(table: IndexedRow[], keyOf: (row: TableRow) => string): Map<string, IndexedRow[]> {
+  const groups = new Map<string, IndexedRow[]>();
+  table.forEach(entry => {
+    const rowKey = keyOf(entry.row);
+    const rows = groups.get(rowKey);
+    if (rows) rows.push(entry);
+    else groups.set(rowKey, [entry]);
+  });
+  return groups;
+}
+
+export function mergeTables(table1: TableRow[], table2: TableRow[], options: MergeOptions): MergeResult {
+  const {
+    keys,
+    joinType = 'full',
+    conflict: conflictOptions = DEFAULT_CONFLICT_OPTIONS,
+    duplicates = 'error',
+    keyMatch = DEFAULT_KEY_MATCH_OPTIONS,
+    keyAliases = {},
+    onProgress,
+  } = options;
+  const merged: TableRow[] = [];
+  const lineage: RowLineage[] = [];
+  const conflicts: MergeConflict[] = [];
+  const keyCols = keys.map(k => k.toLowerCase());
+  const keyOf1 = (row: TableRow) => getRowKey(row, keys, keyMatch);
+  const keyOf2 = (row: TableRow) => {
+    const rowKey = getRowKey(row, keys, keyMatch);
+    return keyAliases[rowKey] ?? rowKey;
+  };
+  const left = dedupe(table1, keys, duplicates, conflictOptions, keyMatch);
+  const right = dedupe(table2, keys, duplicates, conflictOptions, keyMatch);
+  const table1Groups = groupByKey(left, keyOf1);
+  const table2Groups = groupByKey(right, keyOf2);
+  const total = left.length + right.length;
+  const report = (done: number) => {
+    if (onProgress && done % PROGRESS_ROWS === 0) onProgress(done, total);
+  };
+
+  const pushOnly = (entry: IndexedRow, side: 'left' | 'right') => {
+    merged.push({ ...entry.row });
+    lineage.push(side === 'left' ? { left: entry.index, right: null } : { left: null, right: entry.index });
+  };
+
+  const pushMerged = ({ row: row1, index: leftIndex }: IndexedRow, { row: row2, index: rightIndex }: IndexedRow) => {
+    const rowIndex = merged.length;
+    const keyLabel = getKeyLabel(row1, keyCols);
+    merged.push(mergeRow(row1, row2, keyCols, conflictOptions, (column, policyValue) => {
+      conflicts.push({
+        rowIndex,
+        keyLabel,
+        column,
+        mainValue: row1[column],
+        additionalValue: row2[column],
+        policyValue,
+        choice: 'policy',
+        customValue: policyValue,
+      });
+    }));
+    lineage.push({ left: leftIndex, right: rightIndex });
+  };
+
+  // Right 계열은 table2 순서를 기준으로 함
+  if (joinType === 'right' || joinType === 'rightAnti') {
+    right.forEach((entry2, i) => {
+      report(left.length + i);
+      const matches = table1Groups.get(keyOf2(entry2.row));
+      if (joinType === 'rightAnti') {
+        if (!matches) pushOnly(entry2, 'right');
+      } else if (matches) {
+        matches.forEach(entry1 => pushMerged(entry1, entry2));
+      } else {
+        pushOnly(entry2, 'right');
+      }
+    });
+    return { rows: merged, conflicts, lineage };
+  }
+
+  const usedKeys = new Set<string>();
+  // 1. table1 기준 병합 (oneToMany인 경우 일치하는 table2 행마다 한 행씩 생성)
+  left.forEach((entry1, i) => {
+    report(i);
+    const rowKey = keyOf1(entry1.row);
+    const matches = table2Groups.get(rowKey);
+    if (matches) {
+      usedKeys.add(rowKey);
+      if (joinType !== 'leftAnti') matches.forEach(entry2 => pushMerged(entry1, entry2));
+    } else if (joinType !== 'inner') {
+      pushOnly(entry1, 'left');
+    }
+  });
+  // 2. table2에만 있는 row 추가 (full outer만)
+  if (joinType === 'full') {
+    right.forEach((entry2, i) => {
+      report(left.length + i);
+      if (!usedKeys.has(keyOf2(entry2.row))) {
+        pushOnly(entry2, 'right');
+      }
+    });
+  }
+  return { rows: merged, conflicts, lineage };
+}
+
+// 소스를 순서대로 누적 병합. 우선순위 모드는 앞 소스 값이 비어있을 때만 뒤 소스 값을 사용
+export function mergeSources(
+  sources: MergeSource[],
+  options: Omit<MergeOptions, 'keyAliases'> & { mode?: MergeMode }
+): SourcesMergeResult {
+  if (sources.length === 0) return { rows: [], conflicts: [], provenance: [] };
+  const { mode = 'sequential', onProgress, ...mergeOptions } = options;
+  const conflict: ConflictOptions = mode === 'priority'
+    ? { ...(mergeOptions.conflict ?? DEFAULT_CONFLICT_OPTIONS), policies: {}, defaultPolicy: 'nonEmptyMain' }
+    : mergeOptions.conflict ?? DEFAULT_CONFLICT_OPTIONS;
+  const [first, ...rest] = sources;
+  let rows = first.rows;
+  const fromSource = (row: TableRow, name: string): RowProvenance => ({
+    sources: [name],
+    cells: Object.fromEntries(Object.keys(row).map(col => [col, { source: name, original: row[col] }])),
+  });
+  let provenance: RowProvenance[] = rows.map(row => fromSource(row, first.name));
+  let conflicts: MergeConflict[] = [];
+
+  rest.forEach((source, step) => {
+    const result = mergeTables(rows, source.rows, {
+      ...mergeOptions,
+      conflict,
+      keyAliases: source.keyAliases,
+      // 단계별 진행률을 전체 진행률로 환산
+      onProgress: onProgress && ((done, total) => onProgress(step + done / Math.max(1, total), rest.length)),
+    });
+    const nextProvenance = result.rows.map((row, r): RowProvenance => {
+      const { left, right } = result.lineage[r];
+      if (left === null) return fromSource(row, source.name);
+      const prev = rows[left];
+      const sourceRow = right !== null ? source.rows[right] : undefined;
+      const cells = { ...provenance[left].cells };
+      Object.keys(row).forEach(col => {
+        if (col in prev && row[col] === prev[col]) return;
+        // 빈 셀을 채운 경우는 덮어쓴 것이 아니라 값을 추가한 것
+        cells[col] = !isEmpty(prev[col])
+          ? { source: source.name, original: sourceRow?.[col], overwritten: prev[col] }
+          : { source: source.name, original: sourceRow?.[col] };
+      });
+      const sources = right !== null ? [...provenance[left].sources, source.name] : provenance[left].sources;
+      return { sources, cells };
+    });
+    // 이전 단계 충돌은 이번 단계에서 값이 바뀌지 않은 셀만 유지
+    const outputsByLeft = new Map<number, number[]>();
+    result.lineage.forEach(({ left }, r) => {
+      if (left === null) return;
+      const outputs = outputsByLeft.get(left);
+      if (outputs) outputs.push(r);
+      else outputsByLeft.set(left, [r]);
+    });
+    const newConflictCells = new Set(result.conflicts.map(c => `${c.rowIndex}:${c.column}`));
+    const carried: MergeConflict[] = [];
+    conflicts.forEach(c => {
+      (outputsByLeft.get(c.rowIndex) ?? []).forEach(r => {
+        if (newConflictCells.has(`${r}:${c.column}`)) return;
+        if (nextProvenance[r].cells[c.column] !== provenance[c.rowIndex].cells[c.column]) return;
+        carried.push({ ...c, rowIndex: r });
+      });
+    });
+    const stepConflicts = result.conflicts.map(c => {
+      const left = result.lineage[c.rowIndex].left;
+      return { ...c, source: source.name, mainProvenance: left !== null ? provenance[left].cells[c.column] : undefined };
+    });
+    conflicts = [...carried, ...stepConflicts];
+    rows = result.rows;
+    provenance = nextProvenance;
+    onProgress?.(step + 1, rest.length);
+  });
+
+  return { rows, conflicts, provenance };
+}
+
+// 정규화 후에도 일치하지 않는 키끼리 편집 거리 유사도로 1:1 후보를 찾음
+export function findFuzzyMatches(
+  table1: TableRow[],
+  table2: TableRow[],
+  keys: string[],
+  keyMatch: KeyMatchOptions,
+  onProgress?: ProgressHandler
+): FuzzyMatch[] {
+  const keyCols = keys.map(k => k.toLowerCase());
+  const index1 = indexByKey(table1, keys, keyMatch);
+  const index2 = indexByKey(table2, keys, keyMatch);
+  const labelOf = (row: TableRow) => keyCols.map(k => String(normalizeKeyValue(row[k], keyMatch) ?? '')).join(' / ');
+  // 비교할 키 문자열은 행마다 한 번만 만듦
+  const unmatched1 = Array.from(index1).filter(([k]) => !index2.has(k)).map(([key, row]) => ({ key, row, label: labelOf(row) }));
+  const unmatched2 = Array.from(index2).filter(([k]) => !index1.has(k)).map(([key, row]) => ({ key, row, label: labelOf(row) }));
+  const candidates: FuzzyMatch[] = [];
+  unmatched2.forEach(({ key: additionalKey, row: row2, label: label2 }, i) => {
+    if (onProgress && i % 100 === 0) onProgress(i, unmatched2.length);
+    unmatched1.forEach(({ key: mainKey, row: row1, label: label1 }) => {
+      const score = similarity(label1, label2);
+      if (score >= keyMatch.fuzzyThreshold) {
+        candidates.push({
+          mainKey,
+          additionalKey,
+          mainLabel: getKeyLabel(row1, keyCols),
+          additionalLabel: getKeyLabel(row2, keyCols),
+          similarity: score,
+        });
+      }
+    });
+  });
+  // 유사도가 높은 순으로 한 키당 한 번만 매칭
+  const used1 = new Set<string>();
+  const used2 = new Set<string>();
+  return candidates
+    .sort((a, b) => b.similarity - a.similarity)
+    .filter(m => {
+      if (used1.has(m.mainKey) || used2.has(m.additionalKey)) return false;
+      used1.add(m.mainKey);
+      used2.add(m.additionalKey);
+      return true;
+    });
+}
+
+export function getConflictValue(conflict: MergeConflict): TableRow[string] {
+  switch (conflict.choice) {
+    case 'main':
+      return conflict.mainValue;
+    case 'additional':
+      return conflict.additionalValue;
+    case 'custom':
+      return conflict.customValue;
+    default:
+      return conflict.policyValue;
+  }
+}
+
+// 충돌 검토에서 정책값과 다른 값을 고른 셀의 출처를 갱신
+export function applyConflictProvenance(provenance: RowProvenance[], conflicts: MergeConflict[]): RowProvenance[] {
+  const next = [...provenance];
+  conflicts.forEach(conflict => {
+    if (conflict.choice === 'policy' || !next[conflict.rowIndex]) return;
+    let cell: CellProvenance | undefined;
+    if (conflict.choice === 'main') {
+      cell = conflict.mainProvenance;
+    } else if (conflict.choice === 'additional') {
+      cell = { source: conflict.source ?? '', original: conflict.additionalValue, overwritten: conflict.mainValue };
+    } else {
+      cell = { source: '직접 입력', original: conflict.customValue, overwritten: conflict.mainValue };
+    }
+    if (!cell) return;
+    next[conflict.rowIndex] = {
+      ...next[conflict.rowIndex],
+      cells: { ...next[conflict.rowIndex].cells, [conflict.column]: cell },
+    };
+  });
+  return next;
+}
+
+// 검토가 끝난 충돌 선택을 병합 결과에 반영
+export function applyConflictResolutions(rows: TableRow[], conflicts: MergeConflict[]): TableRow[] {
+  const next = [...rows];
+  conflicts.forEach(conflict => {
+    next[conflict.rowIndex] = { ...next[conflict.rowIndex], [conflict.column]: getConflictValue(conflict) };
+  });
+  return next;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSources } from './merge';
+import { buildMergeReport, reportChangeRows, reportColumnRows, reportSummaryRows } from './report';
+
+const merge = () =>
+  mergeSources(
+    [
+      { name: 'A', rows: [{ id: '1', name: 'old', memo: '' }, { id: '2', name: 'same', memo: 'x' }] },
+      { name: 'B', rows: [{ id: '1', name: 'new', memo: 'filled', extra: 'e' }, { id: '3', name: 'added' }] },
+    ],
+    { keys: ['id'], conflict: { policies: {}, defaultPolicy: 'additional', separator: ', ', timestampColumn: '' } }
+  );
+
+describe('셀 출처', () => {
+  it('값이 있던 셀만 덮어쓴 것으로 기록한다', () => {
+    const { provenance } = merge();
+    expect(provenance[0].cells.name).toEqual({ source: 'B', original: 'new', overwritten: 'old' });
+    expect(provenance[0].cells.memo).toEqual({ source: 'B', original: 'filled' });
+    expect(provenance[0].cells.extra).toEqual({ source: 'B', original: 'e' });
+    expect(provenance[1].cells.name).toEqual({ source: 'A', original: 'same' });
+    expect(provenance[2].sources).toEqual(['B']);
+  });
+});
+
+describe('buildMergeReport', () => {
+  it('빈 셀을 채운 것은 추가로, 값을 바꾼 것은 변경으로 센다', () => {
+    const { rows, provenance } = merge();
+    const report = buildMergeReport(rows, provenance, 'A', ['id']);
+    expect(report).toMatchObject({ totalRows: 3, matchedRows: 1, addedRows: 1, updatedRows: 1, unchangedRows: 1 });
+    expect(report.columns).toEqual([
+      { column: 'name', updated: 1, added: 0 },
+      { column: 'memo', updated: 0, added: 1 },
+      { column: 'extra', updated: 0, added: 1 },
+    ]);
+    expect(report.changes.map(c => [c.row, c.column, c.type])).toEqual([
+      [1, 'name', 'updated'],
+      [1, 'memo', 'added'],
+      [1, 'extra', 'added'],
+      [3, '', 'rowAdded'],
+    ]);
+  });
+
+  it('내보내기용 행을 만든다', () => {
+    const { rows, provenance } = merge();
+    const report = buildMergeReport(rows, provenance, 'A', ['id']);
+    expect(reportSummaryRows(report)[0]).toEqual({ 항목: '전체 행', 값: 3 });
+    expect(reportChangeRows(report)[0]).toMatchObject({ 행: 1, 컬럼: 'name', 구분: '값 변경', 이전값: 'old', 새값: 'new' });
+  });
+
+  it('내보내기 행의 컬럼은 원래 컬럼명으로 쓴다', () => {
+    const { rows, provenance } = merge();
+    const report = buildMergeReport(rows, provenance, 'A', ['id']);
+    const names = { name: 'Full Name' };
+    expect(reportChangeRows(report, names)[0]).toMatchObject({ 컬럼: 'Full Name' });
+    expect(reportChangeRows(report, names)[3]).toMatchObject({ 컬럼: '', 구분: '행 추가' });
+    expect(reportColumnRows(report, names)[0]).toEqual({ 컬럼: 'Full Name', 변경: 1, 추가: 0 });
+  });
+});
@@ -0,0 +1,131 @@
+import type { TableRow } from './table';
+import { getKeyLabel, type RowProvenance } from './merge';
+import { displayName, type ColumnNames } from './columnNames';
+
+export type ChangeType = 'updated' | 'added' | 'rowAdded';
+
+export const CHANGE_TYPE_LABELS: Record<ChangeType, string> = {
+  updated: '값 변경',
+  added: '값 추가',
+  rowAdded: '행 추가',
+};
+
+// 셀 출처는 저장하지 않으므로 새로고침 후 복원한 병합 결과에는 출처가 없음
+export const MISSING_PROVENANCE_MESSAGE =
+  '새로고침 전에 병합한 결과라 셀 출처가 없습니다. 병합 리포트와 변경분 내보내기는 병합을 다시 실행한 뒤 사용할 수 있습니다.';
+
+export interface MergeChange {
+  // 병합 결과에서의 행 번호 (1부터)
+  row: number;
+  key: string;
+  column: string;
+  type: ChangeType;
+  source: string;
+  before: TableRow[string];
+  after: TableRow[string];
+}
+
+export interface ColumnChangeCount {
+  column: string;
+  updated: number;
+  added: number;
+}
+
+export interface MergeReport {
+  totalRows: number;
+  matchedRows: number;
+  addedRows: number;
+  updatedRows: number;
+  unchangedRows: number;
+  columns: ColumnChangeCount[];
+  changes: MergeChange[];
+}
+
+// 병합 결과와 셀 출처로 리포트 작성. mainName은 기준(첫 번째) 소스 이름
+export function buildMergeReport(
+  rows: TableRow[],
+  provenance: RowProvenance[],
+  mainName: string,
+  keys: string[]
+): MergeReport {
+  const report: MergeReport = {
+    totalRows: rows.length,
+    matchedRows: 0,
+    addedRows: 0,
+    updatedRows: 0,
+    unchangedRows: 0,
+    columns: [],
+    changes: [],
+  };
+  const columnCounts = new Map<string, ColumnChangeCount>();
+  const countColumn = (column: string, type: 'updated' | 'added') => {
+    const count = columnCounts.get(column) ?? { column, updated: 0, added: 0 };
+    count[type]++;
+    columnCounts.set(column, count);
+  };
+
+  rows.forEach((row, i) => {
+    const prov = provenance[i];
+    const key = getKeyLabel(row, keys);
+    if (!prov) {
+      report.unchangedRows++;
+      return;
+    }
+    if (prov.sources.length > 1) report.matchedRows++;
+    if (!prov.sources.includes(mainName)) {
+      report.addedRows++;
+      report.changes.push({ row: i + 1, key, column: '', type: 'rowAdded', source: prov.sources[0] ?? '', before: '', after: '' });
+      return;
+    }
+    let changed = false;
+    Object.keys(prov.cells).forEach(column => {
+      const cell = prov.cells[column];
+      if (cell.source === mainName) return;
+      const type = 'overwritten' in cell ? 'updated' : 'added';
+      changed = true;
+      countColumn(column, type);
+      report.changes.push({
+        row: i + 1,
+        key,
+        column,
+        type,
+        source: cell.source,
+        before: cell.overwritten ?? '',
+        after: row[column],
+      });
+    });
+    if (changed) report.updatedRows++;
+    else report.unchangedRows++;
+  });
+
+  report.columns = Array.from(columnCounts.values());
+  return report;
+}
+
+// 내보내기용 행 형태 (한글 헤더)
+export function reportSummaryRows(report: MergeReport): TableRow[] {
+  return [
+    { 항목: '전체 행', 값: report.totalRows },
+    { 항목: '매칭된 행', 값: report.matchedRows },
+    { 항목: '추가된 행', 값: report.addedRows },
+    { 항목: '변경된 행', 값: report.updatedRows },
+    { 항목: '변경 없는 행', 값: report.unchangedRows },
+  ];
+}
+
+// 컬럼은 names의 원래 컬럼명으로 표시
+export function reportColumnRows(report: MergeReport, names: ColumnNames = {}): TableRow[] {
+  return report.columns.map(c => ({ 컬럼: displayName(names, c.column), 변경: c.updated, 추가: c.added }));
+}
+
+export function reportChangeRows(report: MergeReport, names: ColumnNames = {}): TableRow[] {
+  return report.changes.map(c => ({
+    행: c.row,
+    키: c.key,
+    컬럼: displayName(names, c.column),
+    구분: CHANGE_TYPE_LABELS[c.type],
+    출처: c.source,
+    이전값: c.before,
+    새값: c.after,
+  }));
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { applySchema, convertCell, convertInput, formatTable, inferColumnType, inferSchema, mergeSchemas } from './schema';
+
+describe('inferColumnType', () => {
+  it('모든 값이 만족하는 가장 구체적인 타입을 고른다', () => {
+    expect(inferColumnType(['1', '2', ''])).toBe('integer');
+    expect(inferColumnType(['1', '2.5'])).toBe('decimal');
+    expect(inferColumnType(['10%', '2.5 %'])).toBe('percent');
+    expect(inferColumnType(['yes', 'No'])).toBe('boolean');
+    expect(inferColumnType(['2024-01-02', '2024/3/4 10:20'])).toBe('date');
+    expect(inferColumnType(['1', 'a'])).toBe('string');
+    expect(inferColumnType([])).toBe('string');
+  });
+
+  it('앞자리 0과 지수 표기는 문자열로 둔다', () => {
+    expect(inferColumnType(['00123'])).toBe('string');
+    expect(inferColumnType(['1e5'])).toBe('string');
+  });
+
+  it('15자리를 넘는 숫자는 정밀도를 잃지 않도록 문자열로 둔다', () => {
+    expect(inferColumnType(['12345678901234567890', '12345678901234567891'])).toBe('string');
+    expect(inferColumnType(['1234567890.1234567'])).toBe('string');
+    expect(inferColumnType(['123456789012345'])).toBe('integer');
+    expect(inferColumnType(['0.000000000000000001'])).toBe('decimal');
+  });
+});
+
+describe('convertCell', () => {
+  it('긴 숫자는 소수 컬럼에서도 원래 문자열을 유지한다', () => {
+    expect(convertCell('12345678901234567890', 'decimal')).toBe('12345678901234567890');
+    expect(convertCell('1,234.50', 'decimal')).toBe(1234.5);
+  });
+
+  it('정수 컬럼은 정수 형식만 숫자로 바꾼다', () => {
+    expect(convertCell('1,234', 'integer')).toBe(1234);
+    expect(convertCell('1.5', 'integer')).toBe('1.5');
+  });
+
+  it('퍼센트, 참/거짓, 날짜를 정규화한다', () => {
+    expect(convertCell('12.5%', 'percent')).toBe(12.5);
+    expect(convertCell('YES', 'boolean')).toBe('true');
+    expect(convertCell('2024.1.2', 'date')).toBe('2024-01-02');
+    expect(convertCell(3, 'string')).toBe('3');
+    expect(convertCell(undefined, 'integer')).toBe('');
+  });
+
+  it('스키마가 없으면 입력값 하나로 추론한다', () => {
+    expect(convertInput('42')).toBe(42);
+    expect(convertInput('abc')).toBe('abc');
+  });
+});
+
+describe('스키마 적용', () => {
+  it('추론한 스키마로 행을 변환하고 표시할 때 %를 붙인다', () => {
+    const table = [{ n: '1', p: '5%', s: 'x' }];
+    const schema = inferSchema(table);
+    expect(schema).toEqual({ n: 'integer', p: 'percent', s: 'string' });
+    const rows = applySchema(table, schema);
+    expect(rows).toEqual([{ n: 1, p: 5, s: 'x' }]);
+    expect(formatTable(rows, schema)).toEqual([{ n: 1, p: '5%', s: 'x' }]);
+  });
+
+  it('앞선 스키마가 우선한다', () => {
+    expect(mergeSchemas({ a: 'integer' }, { a: 'string', b: 'date' })).toEqual({ a: 'integer', b: 'date' });
+  });
+});
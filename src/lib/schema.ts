@@ -0,0 +1,153 @@
+import type { TableRow } from './table';
+
+// 컬럼별 값 타입. 가져오기 후 추론하고 사용자가 바꿀 수 있음
+export type ColumnType = 'string' | 'integer' | 'decimal' | 'boolean' | 'date' | 'percent';
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  string: '문자열',
+  integer: '정수',
+  decimal: '소수',
+  boolean: '참/거짓',
+  date: '날짜',
+  percent: '퍼센트',
+};
+
+// 컬럼명(소문자) → 타입
+export type ColumnSchema = Record<string, ColumnType>;
+
+// 앞자리 0이 있는 값(00123)이나 지수 표기(1e5)는 숫자로 보지 않음. 15자리 초과는 정밀도 손실이 있어 문자열 유지
+const INTEGER_RE = /^[+-]?(0|[1-9]\d{0,14}|[1-9]\d{0,2}(,\d{3}){1,4})$/;
+const DECIMAL_RE = /^[+-]?(0|[1-9]\d*|[1-9]\d{0,2}(,\d{3})+)(\.\d+)?$/;
+const PERCENT_RE = /^[+-]?(0|[1-9]\d*)(\.\d+)?\s?%$/;
+const BOOLEAN_VALUES: Record<string, 'true' | 'false'> = { true: 'true', false: 'false', yes: 'true', no: 'false' };
+const DATE_RE = /^(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const MAX_SIGNIFICANT_DIGITS = 15;
+
+// 정수부와 소수부 유효 숫자가 15자리를 넘으면 Number로 바꿀 때 값이 달라짐
+function isPrecise(text: string): boolean {
+  const [int, frac = ''] = text.replace(/[^\d.]/g, '').split('.');
+  return (int + frac.replace(/0+$/, '')).replace(/^0+/, '').length <= MAX_SIGNIFICANT_DIGITS;
+}
+
+const isDecimal = (text: string) => DECIMAL_RE.test(text) && isPrecise(text);
+const isPercent = (text: string) => PERCENT_RE.test(text) && isPrecise(text);
+const toNumber = (text: string) => Number(text.replace(/,/g, ''));
+
+const pad = (n: string) => n.padStart(2, '0');
+
+function parseDate(text: string): string | null {
+  const m = DATE_RE.exec(text);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s] = m;
+  const month = Number(mo);
+  const day = Number(d);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = `${y}-${pad(mo)}-${pad(d)}`;
+  return h === undefined ? date : `${date} ${pad(h)}:${mi}${s !== undefined ? `:${s}` : ''}`;
+}
+
+const matchesType = (value: string | number, type: ColumnType): boolean => {
+  if (typeof value === 'number') {
+    if (type === 'integer') return Number.isInteger(value);
+    return type === 'decimal' || type === 'percent';
+  }
+  switch (type) {
+    case 'integer': return INTEGER_RE.test(value);
+    case 'decimal': return isDecimal(value);
+    case 'percent': return isPercent(value);
+    case 'boolean': return value.toLowerCase() in BOOLEAN_VALUES;
+    case 'date': return parseDate(value) !== null;
+    default: return true;
+  }
+};
+
+// 구체적인 타입부터 검사해 비어 있지 않은 값이 모두 만족하는 첫 타입을 선택
+const INFERENCE_ORDER: ColumnType[] = ['boolean', 'integer', 'decimal', 'percent', 'date'];
+
+export function inferColumnType(values: TableRow[string][]): ColumnType {
+  const filled = values
+    .filter(v => v !== undefined && v !== null && String(v).trim() !== '')
+    .map(v => (typeof v === 'number' ? v : String(v).trim()));
+  if (filled.length === 0) return 'string';
+  // 순수 숫자 값만 있는 컬럼은 퍼센트가 아니라 숫자로 본다
+  const candidates = filled.every(v => typeof v === 'number') ? ['integer', 'decimal'] as ColumnType[] : INFERENCE_ORDER;
+  return candidates.find(type => filled.every(v => matchesType(v, type))) ?? 'string';
+}
+
+export function inferSchema(table: TableRow[]): ColumnSchema {
+  const columns = new Set<string>();
+  table.forEach(row => Object.keys(row).forEach(col => columns.add(col)));
+  const schema: ColumnSchema = {};
+  columns.forEach(col => {
+    schema[col] = inferColumnType(table.map(row => row[col]));
+  });
+  return schema;
+}
+
+// 값을 타입에 맞게 변환. 변환할 수 없는 값은 원래 문자열을 그대로 둔다
+export function convertCell(value: TableRow[string], type: ColumnType): string | number {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') {
+    return type === 'string' || type === 'boolean' || type === 'date' ? String(value) : value;
+  }
+  const text = value.trim();
+  if (text === '') return '';
+  switch (type) {
+    case 'integer':
+      return INTEGER_RE.test(text) ? toNumber(text) : text;
+    case 'decimal':
+      return isDecimal(text) ? toNumber(text) : text;
+    case 'percent':
+      if (isPercent(text)) return Number(text.replace(/\s?%$/, ''));
+      return isDecimal(text) ? toNumber(text) : text;
+    case 'boolean':
+      return BOOLEAN_VALUES[text.toLowerCase()] ?? text;
+    case 'date':
+      return parseDate(text) ?? text;
+    default:
+      return text;
+  }
+}
+
+// 스키마에 없는 컬럼은 값 하나로 타입을 추론해 변환
+export function convertInput(value: string, type?: ColumnType): string | number {
+  return convertCell(value, type ?? inferColumnType([value]));
+}
+
+export function applySchema(table: TableRow[], schema: ColumnSchema): TableRow[] {
+  return table.map(row => {
+    const newRow: TableRow = {};
+    Object.keys(row).forEach(col => {
+      newRow[col] = schema[col] ? convertCell(row[col], schema[col]) : row[col];
+    });
+    return newRow;
+  });
+}
+
+export function inferAndApplySchema(table: TableRow[]): { rows: TableRow[]; schema: ColumnSchema } {
+  const schema = inferSchema(table);
+  return { rows: applySchema(table, schema), schema };
+}
+
+// 앞선 스키마가 우선
+export function mergeSchemas(...schemas: ColumnSchema[]): ColumnSchema {
+  const merged: ColumnSchema = {};
+  schemas.forEach(schema => {
+    Object.keys(schema).forEach(col => {
+      if (!(col in merged)) merged[col] = schema[col];
+    });
+  });
+  return merged;
+}
+
+// CSV/엑셀 내보내기용 표시 값 (퍼센트는 % 기호를 붙임)
+export function formatTable(table: TableRow[], schema: ColumnSchema): TableRow[] {
+  return table.map(row => {
+    const newRow: TableRow = {};
+    Object.keys(row).forEach(col => {
+      const value = row[col];
+      newRow[col] = schema[col] === 'percent' && typeof value === 'number' ? `${value}%` : value;
+    });
+    return newRow;
+  });
+}
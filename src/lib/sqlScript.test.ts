@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildSqlScript, quoteSqlIdentifier, sqlLiteral, type SqlScriptData } from './sqlScript';
+import type { MergeReport } from './report';
+
+describe('sqlLiteral', () => {
+  it('작은따옴표를 두 번 쓰고 빈 값은 NULL로 쓴다', () => {
+    expect(sqlLiteral("O'Brien", 'string', 'postgres')).toBe("'O''Brien'");
+    expect(sqlLiteral('', 'string', 'sqlite')).toBe('NULL');
+    expect(sqlLiteral(1.5, 'decimal', 'sqlite')).toBe('1.5');
+    expect(sqlLiteral('가', 'string', 'sqlserver')).toBe("N'가'");
+  });
+
+  it('MySQL은 역슬래시도 이스케이프한다', () => {
+    expect(sqlLiteral('C:\\new', 'string', 'mysql')).toBe("'C:\\\\new'");
+    expect(sqlLiteral('ends\\', 'string', 'mysql')).toBe("'ends\\\\'");
+    expect(sqlLiteral("\\'; DROP TABLE t; --", 'string', 'mysql')).toBe("'\\\\''; DROP TABLE t; --'");
+  });
+
+  it('다른 DBMS에서는 역슬래시를 그대로 둔다', () => {
+    expect(sqlLiteral('C:\\new', 'string', 'postgres')).toBe("'C:\\new'");
+  });
+
+  it('불리언을 DBMS 표기로 쓴다', () => {
+    expect(sqlLiteral('true', 'boolean', 'postgres')).toBe('TRUE');
+    expect(sqlLiteral('false', 'boolean', 'sqlserver')).toBe('0');
+    expect(sqlLiteral('true', 'boolean', 'sqlite')).toBe("'true'");
+  });
+});
+
+describe('quoteSqlIdentifier', () => {
+  it('DBMS별 식별자 따옴표를 쓴다', () => {
+    expect(quoteSqlIdentifier('a`b', 'mysql')).toBe('`a``b`');
+    expect(quoteSqlIdentifier('a]b', 'sqlserver')).toBe('[a]]b]');
+    expect(quoteSqlIdentifier('a"b', 'postgres')).toBe('"a""b"');
+  });
+});
+
+const data: SqlScriptData = {
+  rows: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }],
+  columns: ['id', 'name'],
+  names: ['ID', 'Name'],
+  schema: { id: 'integer', name: 'string' },
+  keys: ['id'],
+};
+
+const report: MergeReport = {
+  totalRows: 2,
+  matchedRows: 1,
+  addedRows: 1,
+  updatedRows: 1,
+  unchangedRows: 0,
+  columns: [],
+  changes: [
+    { row: 1, key: '1', column: 'name', type: 'updated', source: 'B', before: 'x', after: 'a' },
+    { row: 2, key: '2', column: '', type: 'rowAdded', source: 'B', before: '', after: '' },
+  ],
+};
+
+describe('buildSqlScript', () => {
+  it('insert 모드는 기본 키가 있는 테이블을 만들고 모든 행을 넣는다', () => {
+    const script = buildSqlScript(data, { dialect: 'sqlite', mode: 'insert', table: 't' });
+    expect(script).toContain('CREATE TABLE "t" (\n  "ID" INTEGER,\n  "Name" TEXT,\n  PRIMARY KEY ("ID")\n);');
+    expect(script).toContain(`INSERT INTO "t" ("ID", "Name") VALUES\n  (1, 'a'),\n  (2, 'b');`);
+    expect(script.trim().endsWith('COMMIT;')).toBe(true);
+  });
+
+  it('changes 모드는 바뀐 셀만 UPDATE하고 추가된 행만 INSERT한다', () => {
+    const script = buildSqlScript({ ...data, report }, { dialect: 'postgres', mode: 'changes', table: 't' });
+    expect(script).toContain(`UPDATE "t" SET "Name" = 'a' WHERE "ID" = 1;`);
+    expect(script).toContain(`INSERT INTO "t" ("ID", "Name") VALUES\n  (2, 'b');`);
+  });
+
+  it('upsert 모드는 DBMS별 문법을 쓴다', () => {
+    const mysql = buildSqlScript({ ...data, report }, { dialect: 'mysql', mode: 'upsert', table: 't' });
+    expect(mysql).toContain('ON DUPLICATE KEY UPDATE `Name` = VALUES(`Name`);');
+    const sqlite = buildSqlScript({ ...data, report }, { dialect: 'sqlite', mode: 'upsert', table: 't' });
+    expect(sqlite).toContain('ON CONFLICT ("ID") DO UPDATE SET "Name" = excluded."Name";');
+  });
+
+  it('변경분 스크립트는 병합 키가 필요하다', () => {
+    expect(() => buildSqlScript({ ...data, keys: [], report }, { dialect: 'sqlite', mode: 'changes', table: 't' })).toThrow();
+  });
+});
@@ -0,0 +1,202 @@
+import type { TableRow } from './table';
+import type { ColumnSchema, ColumnType } from './schema';
+import type { MergeReport } from './report';
+
+// 병합 결과를 DBMS별 SQL 스크립트로 변환
+
+export type SqlDialect = 'sqlite' | 'postgres' | 'mysql' | 'sqlserver';
+
+export const SQL_DIALECT_LABELS: Record<SqlDialect, string> = {
+  sqlite: 'SQLite',
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlserver: 'SQL Server',
+};
+
+// insert: 테이블 생성 + 전체 행, changes/upsert: Main Table 대비 바뀐 셀과 추가된 행만
+export type SqlScriptMode = 'insert' | 'changes' | 'upsert';
+
+export const SQL_SCRIPT_MODE_LABELS: Record<SqlScriptMode, string> = {
+  insert: 'CREATE TABLE + INSERT (전체 행)',
+  changes: 'UPDATE + INSERT (변경분)',
+  upsert: 'UPSERT (변경분)',
+};
+
+export interface SqlScriptOptions {
+  dialect: SqlDialect;
+  mode: SqlScriptMode;
+  table: string;
+  // INSERT 한 문장에 넣을 행 수
+  batchSize?: number;
+}
+
+// columns는 행의 키, names는 스크립트에 쓸 컬럼명, keys는 병합 키(행의 키)
+export interface SqlScriptData {
+  rows: TableRow[];
+  columns: string[];
+  names: string[];
+  schema: ColumnSchema;
+  keys: string[];
+  // changes/upsert에서 변경분을 고르는 데 사용
+  report?: MergeReport;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+// SQL Server는 VALUES 목록이 1000행까지
+const SQLSERVER_MAX_BATCH = 1000;
+
+const COLUMN_TYPES: Record<SqlDialect, Record<ColumnType, string>> = {
+  sqlite: { string: 'TEXT', integer: 'INTEGER', decimal: 'REAL', boolean: 'TEXT', date: 'TEXT', percent: 'REAL' },
+  postgres: { string: 'TEXT', integer: 'BIGINT', decimal: 'NUMERIC', boolean: 'BOOLEAN', date: 'DATE', percent: 'NUMERIC' },
+  mysql: { string: 'TEXT', integer: 'BIGINT', decimal: 'DOUBLE', boolean: 'BOOLEAN', date: 'DATE', percent: 'DOUBLE' },
+  sqlserver: { string: 'NVARCHAR(MAX)', integer: 'BIGINT', decimal: 'FLOAT', boolean: 'BIT', date: 'DATE', percent: 'FLOAT' },
+};
+
+// 길이 제한 없는 문자열 타입은 기본 키로 쓸 수 없는 DBMS용
+const KEY_STRING_TYPES: Partial<Record<SqlDialect, string>> = {
+  mysql: 'VARCHAR(255)',
+  sqlserver: 'NVARCHAR(450)',
+};
+
+const BEGIN_TRANSACTION: Record<SqlDialect, string> = {
+  sqlite: 'BEGIN TRANSACTION;',
+  postgres: 'BEGIN;',
+  mysql: 'START TRANSACTION;',
+  sqlserver: 'BEGIN TRANSACTION;',
+};
+
+export function quoteSqlIdentifier(name: string, dialect: SqlDialect): string {
+  if (dialect === 'mysql') return '`' + name.replace(/`/g, '``') + '`';
+  if (dialect === 'sqlserver') return `[${name.replace(/]/g, ']]')}]`;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// 빈 값은 NULL, 불리언은 DBMS의 불리언 표기. MySQL은 기본 설정에서 \를 이스케이프 문자로 쓰므로 \\로 바꿈
+export function sqlLiteral(value: TableRow[string], type: ColumnType | undefined, dialect: SqlDialect): string {
+  if (value === undefined || value === null || value === '') return 'NULL';
+  if (type === 'boolean' && dialect !== 'sqlite' && (value === 'true' || value === 'false')) {
+    if (dialect === 'sqlserver') return value === 'true' ? '1' : '0';
+    return value.toUpperCase();
+  }
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  const text = dialect === 'mysql' ? value.replace(/\\/g, '\\\\') : value;
+  const escaped = `'${text.replace(/'/g, "''")}'`;
+  return dialect === 'sqlserver' ? `N${escaped}` : escaped;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// 키 값이 모두 있고 겹치지 않을 때만 기본 키로 선언
+function canUsePrimaryKey(rows: TableRow[], keys: string[]): boolean {
+  if (keys.length === 0) return false;
+  const seen = new Set<string>();
+  return rows.every(row => {
+    const values = keys.map(k => row[k]);
+    if (values.some(v => v === undefined || v === '')) return false;
+    const id = JSON.stringify(values);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+export function buildSqlScript(data: SqlScriptData, options: SqlScriptOptions): string {
+  const { dialect } = options;
+  const table = quoteSqlIdentifier(options.table, dialect);
+  const nameOf = new Map(data.columns.map((col, i) => [col, quoteSqlIdentifier(data.names[i], dialect)]));
+  const literal = (row: TableRow, col: string) => sqlLiteral(row[col], data.schema[col], dialect);
+  const columnList = data.columns.map(col => nameOf.get(col)!).join(', ');
+  const valuesOf = (row: TableRow) => `(${data.columns.map(col => literal(row, col)).join(', ')})`;
+  const whereKeys = (row: TableRow) =>
+    data.keys.map(k => (row[k] === undefined || row[k] === '' ? `${nameOf.get(k)} IS NULL` : `${nameOf.get(k)} = ${literal(row, k)}`)).join(' AND ');
+  const batchSize = Math.max(1, Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, dialect === 'sqlserver' ? SQLSERVER_MAX_BATCH : Infinity));
+  const inserts = (rows: TableRow[]) =>
+    chunk(rows, batchSize).map(batch => `INSERT INTO ${table} (${columnList}) VALUES\n  ${batch.map(valuesOf).join(',\n  ')};`);
+
+  const lines = [`-- ${options.table}: ${SQL_DIALECT_LABELS[dialect]}, ${SQL_SCRIPT_MODE_LABELS[options.mode]}`, BEGIN_TRANSACTION[dialect]];
+
+  if (options.mode === 'insert') {
+    const primaryKey = canUsePrimaryKey(data.rows, data.keys);
+    const definitions = data.columns.map(col => {
+      const type = data.schema[col] ?? 'string';
+      const sqlType = primaryKey && data.keys.includes(col) && type === 'string'
+        ? KEY_STRING_TYPES[dialect] ?? COLUMN_TYPES[dialect].string
+        : COLUMN_TYPES[dialect][type];
+      return `  ${nameOf.get(col)} ${sqlType}`;
+    });
+    if (primaryKey) definitions.push(`  PRIMARY KEY (${data.keys.map(k => nameOf.get(k)).join(', ')})`);
+    lines.push(`CREATE TABLE ${table} (\n${definitions.join(',\n')}\n);`);
+    lines.push(...inserts(data.rows));
+  } else {
+    if (data.keys.length === 0) throw new Error('변경분 스크립트에는 병합 기준 컬럼이 필요합니다.');
+    if (!data.report) throw new Error('병합 리포트가 없습니다.');
+    // 행 번호(1부터) → 바뀐 컬럼. 추가된 행은 null
+    const changed = new Map<number, Set<string> | null>();
+    data.report.changes.forEach(c => {
+      if (c.type === 'rowAdded') changed.set(c.row, null);
+      else if (changed.get(c.row) !== null) changed.set(c.row, (changed.get(c.row) ?? new Set<string>()).add(c.column));
+    });
+    const entries = Array.from(changed.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([rowNumber, cols]) => ({ row: data.rows[rowNumber - 1], cols: cols ? data.columns.filter(col => cols.has(col)) : null }))
+      .filter(e => e.row !== undefined);
+
+    if (options.mode === 'changes') {
+      entries.forEach(({ row, cols }) => {
+        if (cols && cols.length > 0) {
+          lines.push(`UPDATE ${table} SET ${cols.map(col => `${nameOf.get(col)} = ${literal(row, col)}`).join(', ')} WHERE ${whereKeys(row)};`);
+        }
+      });
+      lines.push(...inserts(entries.filter(e => e.cols === null).map(e => e.row)));
+    } else {
+      const nonKeys = data.columns.filter(col => !data.keys.includes(col));
+      entries.forEach(({ row, cols }) => {
+        // 추가된 행이 이미 있으면 키 외 전체를, 기존 행은 바뀐 컬럼만 갱신
+        const updates = cols ?? nonKeys;
+        lines.push(upsertStatement(dialect, table, row, data, nameOf, literal, updates, valuesOf(row)));
+      });
+    }
+  }
+
+  lines.push('COMMIT;');
+  return lines.join('\n') + '\n';
+}
+
+function upsertStatement(
+  dialect: SqlDialect,
+  table: string,
+  row: TableRow,
+  data: SqlScriptData,
+  nameOf: Map<string, string>,
+  literal: (row: TableRow, col: string) => string,
+  updates: string[],
+  values: string
+): string {
+  const columnList = data.columns.map(col => nameOf.get(col)!).join(', ');
+  const keyList = data.keys.map(k => nameOf.get(k)).join(', ');
+  if (dialect === 'mysql') {
+    const set = updates.length > 0
+      ? updates.map(col => `${nameOf.get(col)} = VALUES(${nameOf.get(col)})`).join(', ')
+      : data.keys.map(k => `${nameOf.get(k)} = ${nameOf.get(k)}`).join(', ');
+    return `INSERT INTO ${table} (${columnList}) VALUES ${values} ON DUPLICATE KEY UPDATE ${set};`;
+  }
+  if (dialect === 'sqlserver') {
+    const on = data.keys.map(k => `target.${nameOf.get(k)} = source.${nameOf.get(k)}`).join(' AND ');
+    const matched = updates.length > 0
+      ? `\n  WHEN MATCHED THEN UPDATE SET ${updates.map(col => `${nameOf.get(col)} = source.${nameOf.get(col)}`).join(', ')}`
+      : '';
+    const sourceValues = data.columns.map(col => `source.${nameOf.get(col)}`).join(', ');
+    return (
+      `MERGE INTO ${table} AS target\n  USING (VALUES (${data.columns.map(col => literal(row, col)).join(', ')})) AS source (${columnList})\n  ON ${on}` +
+      `${matched}\n  WHEN NOT MATCHED THEN INSERT (${columnList}) VALUES (${sourceValues});`
+    );
+  }
+  const set = updates.length > 0
+    ? `DO UPDATE SET ${updates.map(col => `${nameOf.get(col)} = excluded.${nameOf.get(col)}`).join(', ')}`
+    : 'DO NOTHING';
+  return `INSERT INTO ${table} (${columnList}) VALUES ${values} ON CONFLICT (${keyList}) ${set};`;
+}
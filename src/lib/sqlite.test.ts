@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createTable, listTables, openDatabase, readTable, upsertTable } from './sqlite';
+
+// 브라우저용 ?url 대신 Node에서 읽을 수 있는 WASM 파일 경로
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', () => ({
+  default: new URL('../../node_modules/sql.js/dist/sql-wasm.wasm', import.meta.url).pathname,
+}));
+
+const data = {
+  rows: [{ id: 1, name: 'a', note: '' }, { id: 2, name: 'b', note: 'x' }],
+  columns: ['id', 'name', 'note'],
+  names: ['ID', 'Name', 'Note'],
+  schema: { id: 'integer' as const, name: 'string' as const },
+};
+
+describe('SQLite', () => {
+  it('새 테이블을 만들고 빈 값은 NULL로 저장한다', async () => {
+    const db = await openDatabase();
+    expect(createTable(db, 'merged', data)).toEqual({ inserted: 2, updated: 0, skippedColumns: [] });
+    expect(listTables(db)).toEqual(['merged']);
+    expect(db.exec('SELECT COUNT(*) FROM merged WHERE Note IS NULL')[0].values[0][0]).toBe(1);
+    expect(readTable(db, 'merged')).toEqual({
+      columns: ['ID', 'Name', 'Note'],
+      rows: [{ ID: 1, Name: 'a', Note: '' }, { ID: 2, Name: 'b', Note: 'x' }],
+    });
+    expect(() => createTable(db, 'MERGED', data)).toThrow('이미 있는 테이블');
+    db.close();
+  });
+
+  it('UPSERT는 키가 같은 행을 갱신하고 없는 컬럼은 건너뛴다', async () => {
+    const db = await openDatabase();
+    db.run('CREATE TABLE t (id INTEGER, name TEXT)');
+    db.run("INSERT INTO t VALUES (1, 'old')");
+    const result = upsertTable(db, 't', data, ['id']);
+    expect(result).toEqual({ inserted: 1, updated: 1, skippedColumns: ['note'] });
+    expect(readTable(db, 't').rows).toEqual([{ id: 1, name: 'a' }, { id: 2, name: 'b' }]);
+    db.close();
+  });
+});
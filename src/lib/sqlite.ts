@@ -0,0 +1,204 @@
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import wasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import type { ProgressHandler, TableRow } from './table';
+import type { ColumnSchema, ColumnType } from './schema';
+
+// 브라우저 안의 SQLite(WASM) 엔진으로 .sqlite/.db 파일을 읽고 쓰기
+// 파일은 메모리에 통째로 올린 뒤 수정하고, 저장은 새 파일로 내려받음
+
+export const SQLITE_EXTENSIONS = ['.sqlite', '.sqlite3', '.db'];
+
+// 파일 헤더 "SQLite format 3\0"
+const SQLITE_SIGNATURE = 'SQLite format 3\u0000';
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+// WASM 모듈은 처음 사용할 때 한 번만 불러옴
+function loadSql(): Promise<SqlJsStatic> {
+  if (!sqlPromise) {
+    sqlPromise = import('sql.js')
+      .then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => wasmUrl }))
+      .catch(e => {
+        sqlPromise = null;
+        throw e;
+      });
+  }
+  return sqlPromise;
+}
+
+export function isSqliteFile(bytes: Uint8Array): boolean {
+  return bytes.length >= SQLITE_SIGNATURE.length && Array.from(SQLITE_SIGNATURE).every((ch, i) => bytes[i] === ch.charCodeAt(0));
+}
+
+// buffer가 없으면 빈 데이터베이스
+export async function openDatabase(buffer?: ArrayBuffer): Promise<Database> {
+  const SQL = await loadSql();
+  return new SQL.Database(buffer ? new Uint8Array(buffer) : null);
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// 사용자 테이블과 뷰 이름 (내부 sqlite_ 테이블 제외)
+export function listTables(db: Database): string[] {
+  const result = db.exec("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  return result.length > 0 ? result[0].values.map(v => String(v[0])) : [];
+}
+
+export function tableColumns(db: Database, table: string): string[] {
+  const result = db.exec(`PRAGMA table_info(${quoteIdentifier(table)})`);
+  if (result.length === 0) return [];
+  const nameIdx = result[0].columns.indexOf('name');
+  return result[0].values.map(v => String(v[nameIdx]));
+}
+
+// BLOB은 16진수 문자열, NULL은 빈 값
+function toCellValue(value: SqlValue): TableRow[string] {
+  if (value === null) return '';
+  if (value instanceof Uint8Array) return Array.from(value, b => b.toString(16).padStart(2, '0')).join('');
+  return value;
+}
+
+// 행과 테이블 정의의 컬럼 순서 (행의 키는 원래 컬럼명)
+export function readTable(db: Database, table: string, onProgress?: ProgressHandler): { rows: TableRow[]; columns: string[] } {
+  // 진행률 표시용 전체 행 수
+  const total = onProgress ? Number(db.exec(`SELECT COUNT(*) FROM ${quoteIdentifier(table)}`)[0]?.values[0][0] ?? 0) : 0;
+  const stmt = db.prepare(`SELECT * FROM ${quoteIdentifier(table)}`);
+  try {
+    const columns = stmt.getColumnNames();
+    const rows: TableRow[] = [];
+    while (stmt.step()) {
+      const values = stmt.get();
+      const row: TableRow = {};
+      columns.forEach((col, i) => {
+        row[col] = toCellValue(values[i]);
+      });
+      rows.push(row);
+      onProgress?.(rows.length, total);
+    }
+    return { rows, columns };
+  } finally {
+    stmt.free();
+  }
+}
+
+const COLUMN_AFFINITY: Record<ColumnType, string> = {
+  string: 'TEXT',
+  integer: 'INTEGER',
+  decimal: 'REAL',
+  boolean: 'TEXT',
+  date: 'TEXT',
+  percent: 'REAL',
+};
+
+// 빈 값은 NULL로 저장
+function toSqlValue(value: TableRow[string]): SqlValue {
+  return value === undefined || value === '' ? null : value;
+}
+
+// 내보낼 데이터. columns는 행의 키, names는 데이터베이스에 쓸 컬럼명
+export interface SqliteExportData {
+  rows: TableRow[];
+  columns: string[];
+  names: string[];
+  schema: ColumnSchema;
+}
+
+export interface SqliteExportResult {
+  inserted: number;
+  updated: number;
+  // 대상 테이블에 없어 저장하지 않은 컬럼
+  skippedColumns: string[];
+}
+
+// 새 테이블을 만들어 모든 행을 추가. 같은 이름의 테이블이 있으면 오류
+export function createTable(db: Database, table: string, data: SqliteExportData, onProgress?: ProgressHandler): SqliteExportResult {
+  if (listTables(db).some(t => t.toLowerCase() === table.toLowerCase())) {
+    throw new Error(`이미 있는 테이블입니다: ${table}`);
+  }
+  const definitions = data.columns.map((col, i) => `${quoteIdentifier(data.names[i])} ${COLUMN_AFFINITY[data.schema[col] ?? 'string']}`);
+  db.run('BEGIN');
+  try {
+    db.run(`CREATE TABLE ${quoteIdentifier(table)} (${definitions.join(', ')})`);
+    const stmt = db.prepare(
+      `INSERT INTO ${quoteIdentifier(table)} (${data.names.map(quoteIdentifier).join(', ')}) VALUES (${data.columns.map(() => '?').join(', ')})`
+    );
+    try {
+      data.rows.forEach((row, i) => {
+        stmt.run(data.columns.map(col => toSqlValue(row[col])));
+        onProgress?.(i + 1, data.rows.length);
+      });
+    } finally {
+      stmt.free();
+    }
+    db.run('COMMIT');
+  } catch (e) {
+    db.run('ROLLBACK');
+    throw e;
+  }
+  return { inserted: data.rows.length, updated: 0, skippedColumns: [] };
+}
+
+// 키 컬럼이 같은 행은 갱신하고 없으면 추가 (고유 제약이 없는 테이블에서도 동작하도록 UPDATE 후 INSERT)
+// 컬럼명은 SQLite처럼 대소문자를 구분하지 않고 대상 테이블 컬럼에 맞춤
+export function upsertTable(
+  db: Database,
+  table: string,
+  data: SqliteExportData,
+  keys: string[],
+  onProgress?: ProgressHandler
+): SqliteExportResult {
+  const existing = tableColumns(db, table);
+  if (existing.length === 0) throw new Error(`테이블을 찾을 수 없습니다: ${table}`);
+  const target = new Map(existing.map(name => [name.toLowerCase(), name]));
+  const matched = data.columns
+    .map((col, i) => ({ col, name: target.get(data.names[i].toLowerCase()) ?? target.get(col.toLowerCase()) }))
+    .filter((m): m is { col: string; name: string } => m.name !== undefined);
+  const skippedColumns = data.columns.filter(col => !matched.some(m => m.col === col));
+  const keyColumns = keys.map(key => matched.find(m => m.col === key));
+  const missing = keys.filter((_, i) => !keyColumns[i]);
+  if (missing.length > 0) throw new Error(`대상 테이블에 키 컬럼이 없습니다: ${missing.join(', ')}`);
+  const keyMatches = keyColumns as { col: string; name: string }[];
+  const valueMatches = matched.filter(m => !keys.includes(m.col));
+
+  const tableName = quoteIdentifier(table);
+  const where = keyMatches.map(m => `${quoteIdentifier(m.name)} IS ?`).join(' AND ');
+  const update = valueMatches.length > 0
+    ? db.prepare(`UPDATE ${tableName} SET ${valueMatches.map(m => `${quoteIdentifier(m.name)} = ?`).join(', ')} WHERE ${where}`)
+    : null;
+  const exists = db.prepare(`SELECT 1 FROM ${tableName} WHERE ${where} LIMIT 1`);
+  const insert = db.prepare(
+    `INSERT INTO ${tableName} (${matched.map(m => quoteIdentifier(m.name)).join(', ')}) VALUES (${matched.map(() => '?').join(', ')})`
+  );
+  let inserted = 0;
+  let updated = 0;
+  db.run('BEGIN');
+  try {
+    data.rows.forEach((row, i) => {
+      const keyValues = keyMatches.map(m => toSqlValue(row[m.col]));
+      exists.bind(keyValues);
+      const found = exists.step();
+      exists.reset();
+      if (found) {
+        if (update) {
+          update.run([...valueMatches.map(m => toSqlValue(row[m.col])), ...keyValues]);
+          updated += db.getRowsModified();
+        }
+      } else {
+        insert.run(matched.map(m => toSqlValue(row[m.col])));
+        inserted++;
+      }
+      onProgress?.(i + 1, data.rows.length);
+    });
+    db.run('COMMIT');
+  } catch (e) {
+    db.run('ROLLBACK');
+    throw e;
+  } finally {
+    update?.free();
+    exists.free();
+    insert.free();
+  }
+  return { inserted, updated, skippedColumns };
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { saveToStorage } from './storage';
+
+describe('saveToStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('JSON으로 저장한다', () => {
+    const setItem = vi.fn();
+    vi.stubGlobal('localStorage', { setItem });
+    expect(saveToStorage('key', { a: 1 })).toBeNull();
+    expect(setItem).toHaveBeenCalledWith('key', '{"a":1}');
+  });
+
+  it('용량 초과는 예외 대신 메시지를 돌려준다', () => {
+    vi.stubGlobal('localStorage', {
+      setItem: () => {
+        throw new DOMException('full', 'QuotaExceededError');
+      },
+    });
+    expect(saveToStorage('key', {})).toContain('저장 공간이 부족');
+  });
+});
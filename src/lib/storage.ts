@@ -0,0 +1,17 @@
+// 작업 상태의 localStorage 저장
+
+// 편집이 이어지는 동안에는 저장을 미루고 멈춘 뒤 한 번만 저장
+export const SAVE_DELAY_MS = 1000;
+
+// 저장에 실패하면(용량 초과 등) 오류 메시지, 성공하면 null
+export function saveToStorage(key: string, value: unknown): string | null {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return null;
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+      return '브라우저 저장 공간이 부족해 작업 상태를 저장하지 못했습니다. 새로고침하면 마지막 저장 이후 변경 내용이 사라집니다.';
+    }
+    return '작업 상태를 저장하지 못했습니다: ' + (e as Error).message;
+  }
+}
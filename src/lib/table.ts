@@ -0,0 +1,23 @@
+import type { ColumnSchema } from './schema';
+import type { ColumnNames } from './columnNames';
+
+export interface TableRow {
+  [key: string]: string | number | undefined;
+}
+
+// 오래 걸리는 처리의 진행 상황 (done / total 비율로 표시)
+export type ProgressHandler = (done: number, total: number) => void;
+
+// 병합 대상 소스 테이블. 목록 순서가 우선순위이며 첫 번째가 Main Table
+export interface SourceTable {
+  id: string;
+  name: string;
+  rows: TableRow[];
+  showPaste: boolean;
+  pasteText: string;
+  schema: ColumnSchema;
+  // 정규화 키 → 원래 컬럼명
+  columnNames: ColumnNames;
+  // 화면 표시와 내보내기에 쓰는 컬럼 순서 (정규화 키)
+  columnOrder: string[];
+}
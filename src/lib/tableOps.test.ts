@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addColumn,
+  applyRowOperation,
+  blankRow,
+  clearRange,
+  copyColumn,
+  copyColumnName,
+  deleteColumn,
+  fillDown,
+  newColumnNames,
+  pasteValues,
+  rangeValues,
+} from './tableOps';
+import type { TableRow } from './table';
+
+describe('행 편집', () => {
+  const rows = [{ a: '1' }, { a: '2' }];
+  const blank = () => blankRow(['a']);
+
+  it('지정한 행의 위/아래에 빈 행을 넣는다', () => {
+    expect(applyRowOperation(rows, 'insertAbove', 1, blank)).toEqual([{ a: '1' }, { a: '' }, { a: '2' }]);
+    expect(applyRowOperation(rows, 'insertBelow', 1, blank)).toEqual([{ a: '1' }, { a: '2' }, { a: '' }]);
+  });
+
+  it('복제한 행은 새 객체다', () => {
+    const next = applyRowOperation(rows, 'duplicate', 0, blank);
+    expect(next).toEqual([{ a: '1' }, { a: '1' }, { a: '2' }]);
+    expect(next[1]).not.toBe(next[0]);
+    expect(applyRowOperation(rows, 'delete', 0, blank)).toEqual([{ a: '2' }]);
+  });
+});
+
+describe('컬럼 편집', () => {
+  const rows: TableRow[] = [{ a: '1', b: 'x' }, { a: '', b: '' }, { a: '3' }];
+
+  it('추가, 복제, 삭제', () => {
+    expect(addColumn([{ a: '1' }], 'c')).toEqual([{ a: '1', c: '' }]);
+    expect(copyColumn(rows, 'b', 'c')[2]).toEqual({ a: '3' });
+    expect(copyColumn(rows, 'b', 'c')[0]).toEqual({ a: '1', b: 'x', c: 'x' });
+    expect(deleteColumn(rows, 'b')).toEqual([{ a: '1' }, { a: '' }, { a: '3' }]);
+  });
+
+  it('빈 칸을 바로 위의 값으로 채운다', () => {
+    expect(fillDown(rows, 'a').map(row => row.a)).toEqual(['1', '1', '3']);
+    expect(fillDown(rows, 'b').map(row => row.b)).toEqual(['x', 'x', 'x']);
+  });
+
+  it('복제한 컬럼은 겹치지 않는 이름을 쓴다', () => {
+    expect(copyColumnName('Name', ['name', 'name_copy'])).toBe('Name_copy2');
+  });
+});
+
+describe('범위 편집', () => {
+  const rows = [{ a: '1', b: '2' }, { a: '3', b: '4' }];
+  const bounds = { top: 1, left: 0, bottom: 1, right: 1 };
+
+  it('범위 값을 읽고 비운다', () => {
+    expect(rangeValues(rows, ['a', 'b'], bounds)).toEqual([['3', '4']]);
+    expect(clearRange(rows, ['a', 'b'], bounds)).toEqual([{ a: '1', b: '2' }, { a: '', b: '' }]);
+  });
+
+  it('붙여넣기로 늘어나는 컬럼은 기존 컬럼 수 다음 번호부터', () => {
+    expect(newColumnNames(['a', 'column_3'], 2)).toEqual(['column_4', 'column_5']);
+  });
+
+  it('붙여넣기는 모자라는 행을 빈 행으로 추가한다', () => {
+    expect(pasteValues(rows, ['a', 'b'], 1, 1, [['x'], ['y']])).toEqual([{ a: '1', b: '2' }, { a: '3', b: 'x' }, { a: '', b: 'y' }]);
+  });
+});
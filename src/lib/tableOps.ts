@@ -0,0 +1,123 @@
+import type { TableRow } from './table';
+import { normalizeColumnName } from './columnNames';
+import type { RangeBounds } from './cellRange';
+
+// 표의 행/컬럼 편집 (모두 새 배열과 새 행 객체를 돌려줌)
+
+export type RowOperation = 'insertAbove' | 'insertBelow' | 'duplicate' | 'delete';
+
+export const ROW_OPERATION_LABELS: Record<RowOperation, string> = {
+  insertAbove: '위에 행 삽입',
+  insertBelow: '아래에 행 삽입',
+  duplicate: '행 복제',
+  delete: '행 삭제',
+};
+
+// 병합 결과의 셀 출처처럼 행과 같은 순서로 관리하는 배열에도 같은 연산을 적용. 새 항목은 blank()로 만듦
+export function applyRowOperation<T extends object>(items: T[], op: RowOperation, index: number, blank: () => T): T[] {
+  switch (op) {
+    case 'insertAbove':
+      return [...items.slice(0, index), blank(), ...items.slice(index)];
+    case 'insertBelow':
+      return [...items.slice(0, index + 1), blank(), ...items.slice(index + 1)];
+    case 'duplicate':
+      return [...items.slice(0, index + 1), { ...items[index] }, ...items.slice(index + 1)];
+    case 'delete':
+      return items.filter((_, i) => i !== index);
+  }
+}
+
+// 모든 컬럼이 빈 값인 새 행
+export function blankRow(columns: string[]): TableRow {
+  return Object.fromEntries(columns.map(col => [col, '']));
+}
+
+export type ColumnOperation = 'add' | 'duplicate' | 'delete' | 'fillDown' | 'clear';
+
+export const COLUMN_OPERATION_LABELS: Record<ColumnOperation, string> = {
+  add: '오른쪽에 컬럼 추가',
+  duplicate: '컬럼 복제',
+  delete: '컬럼 삭제',
+  fillDown: '빈 칸 아래로 채우기',
+  clear: '컬럼 비우기',
+};
+
+const isEmpty = (value: TableRow[string]) => value === undefined || value === null || value === '';
+
+export function addColumn(rows: TableRow[], column: string): TableRow[] {
+  return rows.map(row => ({ ...row, [column]: '' }));
+}
+
+// 셀 출처 등 컬럼 키를 가진 객체에도 사용
+export function copyColumn<T>(rows: Record<string, T>[], column: string, newColumn: string): Record<string, T>[] {
+  return rows.map(row => (column in row ? { ...row, [newColumn]: row[column] } : row));
+}
+
+export function deleteColumn<T>(rows: Record<string, T>[], column: string): Record<string, T>[] {
+  return rows.map(row => {
+    if (!(column in row)) return row;
+    const { [column]: _removed, ...rest } = row;
+    return rest;
+  });
+}
+
+// 빈 셀을 바로 위의 값으로 채움
+export function fillDown(rows: TableRow[], column: string): TableRow[] {
+  let last: TableRow[string] = '';
+  return rows.map(row => {
+    if (!isEmpty(row[column])) {
+      last = row[column];
+      return row;
+    }
+    return isEmpty(last) ? row : { ...row, [column]: last };
+  });
+}
+
+export function clearColumn(rows: TableRow[], column: string): TableRow[] {
+  return rows.map(row => ({ ...row, [column]: '' }));
+}
+
+// 복제한 컬럼 이름 (name_copy, name_copy2 …). existing은 정규화 키 목록
+export function copyColumnName(name: string, existing: string[]): string {
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${name}_copy` : `${name}_copy${n}`;
+    if (!existing.includes(normalizeColumnName(candidate))) return candidate;
+  }
+}
+
+// 붙여넣기로 늘어난 컬럼 이름 (column_N, 기존 컬럼 수 다음 번호부터)
+export function newColumnNames(existing: string[], count: number): string[] {
+  const names: string[] = [];
+  for (let n = existing.length + 1; names.length < count; n++) {
+    const candidate = `column_${n}`;
+    if (!existing.includes(candidate)) names.push(candidate);
+  }
+  return names;
+}
+
+// 범위 안의 값 (행마다 columns 순서)
+export function rangeValues(rows: TableRow[], columns: string[], bounds: RangeBounds): TableRow[string][][] {
+  const cols = columns.slice(bounds.left, bounds.right + 1);
+  return rows.slice(bounds.top, bounds.bottom + 1).map(row => cols.map(col => row[col]));
+}
+
+export function clearRange(rows: TableRow[], columns: string[], bounds: RangeBounds): TableRow[] {
+  const cols = columns.slice(bounds.left, bounds.right + 1);
+  return rows.map((row, i) =>
+    i < bounds.top || i > bounds.bottom ? row : { ...row, ...Object.fromEntries(cols.map(col => [col, ''])) }
+  );
+}
+
+// (top, left)부터 values를 덮어씀. 모자라는 행은 빈 행으로 추가하고, columns는 필요한 만큼 미리 늘려서 전달
+export function pasteValues(rows: TableRow[], columns: string[], top: number, left: number, values: TableRow[string][][]): TableRow[] {
+  const next = [...rows];
+  while (next.length < top + values.length) next.push(blankRow(columns));
+  values.forEach((record, r) => {
+    const row = { ...next[top + r] };
+    record.forEach((value, c) => {
+      row[columns[left + c]] = value;
+    });
+    next[top + r] = row;
+  });
+  return next;
+}
@@ -0,0 +1,22 @@
+import { runTask, type Task, type TaskMessage } from './tasks';
+
+// 작업 하나를 받아 실행하고 진행 상황과 결과를 돌려주는 Worker
+// 진행 메시지는 화면 갱신이 밀리지 않도록 일정 간격으로만 보냄
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: TaskMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<Task>) => {
+  let last = 0;
+  try {
+    const result = await runTask(e.data, (done, total) => {
+      const now = performance.now();
+      if (now - last < PROGRESS_INTERVAL_MS) return;
+      last = now;
+      post({ type: 'progress', done, total });
+    });
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: (err as Error).message });
+  }
+};
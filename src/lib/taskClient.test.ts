@@ -0,0 +1,96 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { isCancelled, runInWorker } from './taskClient';
+import type { SqliteTask, Task, TaskMessage } from './tasks';
+
+// 브라우저용 ?url 대신 Node에서 읽을 수 있는 WASM 파일 경로
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', () => ({
+  default: new URL('../../node_modules/sql.js/dist/sql-wasm.wasm', import.meta.url).pathname,
+}));
+
+// tableWorker.ts를 같은 스레드에서 실행하는 Worker 대역. 종료한 Worker의 메시지는 버림
+let receive: ((message: TaskMessage) => void) | null = null;
+const scope = {
+  onmessage: null as ((e: { data: Task }) => void) | null,
+  postMessage: (message: TaskMessage) => receive?.(message),
+};
+const created: FakeWorker[] = [];
+
+class FakeWorker {
+  onmessage: ((e: { data: TaskMessage }) => void) | null = null;
+  onerror: ((e: { message: string }) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    created.push(this);
+  }
+
+  postMessage(task: Task) {
+    receive = message => this.receive(message);
+    scope.onmessage?.({ data: task });
+  }
+
+  receive(message: TaskMessage) {
+    if (!this.terminated) this.onmessage?.({ data: message });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+beforeAll(async () => {
+  vi.stubGlobal('self', scope);
+  vi.stubGlobal('Worker', FakeWorker);
+  await import('./tableWorker');
+});
+
+const sqliteTask = (mode: 'create' | 'upsert', target: string): SqliteTask => ({
+  type: 'sqlite',
+  table: {
+    rows: Array.from({ length: 3 }, (_, i) => ({ id: i, name: `n${i}` })),
+    columns: ['id', 'name'],
+    names: {},
+    schema: { id: 'integer', name: 'string' },
+  },
+  buffer: null,
+  target,
+  mode,
+  keys: ['id'],
+});
+
+describe('runInWorker', () => {
+  it('진행 상황을 전달하고 결과로 끝낸다', async () => {
+    const onProgress = vi.fn();
+    const result = await runInWorker(sqliteTask('create', 'merged'), onProgress);
+    expect(onProgress).toHaveBeenCalledWith(1, 3);
+    expect(result.inserted).toBe(3);
+  });
+
+  it('취소하면 AbortError로 거부하고 Worker를 종료한다', async () => {
+    const controller = new AbortController();
+    const run = runInWorker(sqliteTask('create', 'merged'), () => controller.abort(), controller.signal);
+    await expect(run).rejects.toSatisfy(isCancelled);
+    expect(created[created.length - 1].terminated).toBe(true);
+
+    // 종료한 Worker는 다시 쓰지 않음
+    const count = created.length;
+    await runInWorker(sqliteTask('create', 'merged'));
+    expect(created).toHaveLength(count + 1);
+  });
+
+  it('이미 취소된 작업은 Worker를 만들지 않는다', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const count = created.length;
+    await expect(runInWorker(sqliteTask('create', 'merged'), undefined, controller.signal)).rejects.toSatisfy(isCancelled);
+    expect(created).toHaveLength(count);
+  });
+
+  it('작업 오류는 메시지로 거부하고 Worker는 다시 쓴다', async () => {
+    await expect(runInWorker(sqliteTask('upsert', 'nope'))).rejects.toThrow('테이블을 찾을 수 없습니다: nope');
+    const worker = created[created.length - 1];
+    expect(worker.terminated).toBe(false);
+    await runInWorker(sqliteTask('create', 'merged'));
+    expect(created[created.length - 1]).toBe(worker);
+  });
+});
@@ -0,0 +1,70 @@
+import type { ProgressHandler } from './table';
+import type { ExportedFile, Task, TaskMessage, TaskResult } from './tasks';
+
+// 화면에 표시할 진행 중인 작업. total이 0이면 진행률을 알 수 없는 작업
+export interface TaskStatus {
+  label: string;
+  done: number;
+  total: number;
+}
+
+// 작업이 끝난 Worker 하나는 다음 작업에 재사용 (모듈 로딩과 통합 문서 캐시 유지)
+let idleWorker: Worker | null = null;
+
+function createWorker(): Worker {
+  return new Worker(new URL('./tableWorker.ts', import.meta.url), { type: 'module' });
+}
+
+export function isCancelled(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError';
+}
+
+// 작업을 Worker에서 실행. 취소하면 Worker를 종료해 진행 중인 계산도 멈춤
+export function runInWorker<T extends Task>(task: T, onProgress?: ProgressHandler, signal?: AbortSignal): Promise<TaskResult<T>> {
+  return new Promise((resolve, reject) => {
+    const cancelled = () => new DOMException('작업을 취소했습니다.', 'AbortError');
+    if (signal?.aborted) return reject(cancelled());
+    const worker = idleWorker ?? createWorker();
+    idleWorker = null;
+
+    const finish = (reusable: boolean) => {
+      signal?.removeEventListener('abort', abort);
+      worker.onmessage = null;
+      worker.onerror = null;
+      if (reusable && !idleWorker) idleWorker = worker;
+      else worker.terminate();
+    };
+    const abort = () => {
+      finish(false);
+      reject(cancelled());
+    };
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (e: MessageEvent<TaskMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total);
+      } else if (message.type === 'done') {
+        finish(true);
+        resolve(message.result as TaskResult<T>);
+      } else {
+        finish(true);
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = e => {
+      finish(false);
+      reject(new Error(e.message || 'Worker 실행 오류'));
+    };
+    worker.postMessage(task);
+  });
+}
+
+export function downloadFile(file: ExportedFile, filename: string) {
+  const url = URL.createObjectURL(new Blob([file.data], { type: file.type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
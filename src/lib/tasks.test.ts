@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runTask, type ExportTable, type ReportSource, type SqliteTask, type Task } from './tasks';
+import { MISSING_PROVENANCE_MESSAGE } from './report';
+
+// 브라우저용 ?url 대신 Node에서 읽을 수 있는 WASM 파일 경로
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', () => ({
+  default: new URL('../../node_modules/sql.js/dist/sql-wasm.wasm', import.meta.url).pathname,
+}));
+
+const table: ExportTable = {
+  rows: [{ id: 1, name: 'new' }, { id: 2, name: 'edited' }],
+  columns: ['id', 'name'],
+  names: {},
+  schema: { id: 'integer', name: 'string' },
+};
+
+const text = (file: { data: Uint8Array }) => new TextDecoder().decode(file.data);
+
+describe('SQL 스크립트 작업', () => {
+  it('셀 출처가 없으면 변경분 스크립트를 만들지 않는다', async () => {
+    const report: ReportSource = { provenance: null, mainName: 'A', keys: ['id'] };
+    for (const mode of ['changes', 'upsert'] as const) {
+      await expect(
+        runTask({ type: 'export', format: 'sql', table, report, options: { dialect: 'sqlite', mode, table: 't' } }, () => {})
+      ).rejects.toThrow(MISSING_PROVENANCE_MESSAGE);
+    }
+    const insert = await runTask(
+      { type: 'export', format: 'sql', table, report, options: { dialect: 'sqlite', mode: 'insert', table: 't' } },
+      () => {}
+    );
+    expect(text(insert)).toContain('INSERT INTO "t"');
+  });
+
+  it('바뀐 셀과 편집으로 추가한 행을 변경분에 넣는다', async () => {
+    const report: ReportSource = {
+      provenance: [
+        { sources: ['A', 'B'], cells: { name: { source: 'B', original: 'new', overwritten: 'old' } } },
+        { sources: [], cells: {} },
+      ],
+      mainName: 'A',
+      keys: ['id'],
+    };
+    const file = await runTask(
+      { type: 'export', format: 'sql', table, report, options: { dialect: 'sqlite', mode: 'changes', table: 't' } },
+      () => {}
+    );
+    expect(text(file)).toContain(`UPDATE "t" SET "name" = 'new' WHERE "id" = 1;`);
+    expect(text(file)).toContain(`INSERT INTO "t" ("id", "name") VALUES\n  (2, 'edited');`);
+  });
+});
+
+describe('병합 리포트 CSV', () => {
+  const report: ReportSource = {
+    provenance: [
+      { sources: ['A', 'B'], cells: { name: { source: 'B', original: 'new', overwritten: 'old' } } },
+      { sources: ['A'], cells: {} },
+    ],
+    mainName: 'A',
+    keys: ['id'],
+  };
+
+  it('요약, 컬럼별 변경 수, 변경 목록을 빈 줄로 구분해 쓴다', async () => {
+    const file = await runTask({ type: 'export', format: 'reportCsv', table, report, delimiter: ',', encoding: 'utf-8' }, () => {});
+    expect(text(file).split('\r\n\r\n')).toEqual([
+      '항목,값\r\n전체 행,2\r\n매칭된 행,1\r\n추가된 행,0\r\n변경된 행,1\r\n변경 없는 행,1',
+      '컬럼,변경,추가\r\nname,1,0',
+      '행,키,컬럼,구분,출처,이전값,새값\r\n1,1,name,값 변경,B,old,new',
+    ]);
+  });
+
+  it('셀 출처가 없으면 리포트를 만들지 않는다', async () => {
+    await expect(
+      runTask({ type: 'export', format: 'reportXlsx', table, report: { ...report, provenance: null } }, () => {})
+    ).rejects.toThrow(MISSING_PROVENANCE_MESSAGE);
+  });
+});
+
+describe('runTask', () => {
+  const sqliteTask = (mode: 'create' | 'upsert', target: string): SqliteTask => ({
+    type: 'sqlite',
+    table,
+    buffer: null,
+    target,
+    mode,
+    keys: ['id'],
+  });
+
+  it('행마다 진행 상황을 알리고 결과 파일을 돌려준다', async () => {
+    const onProgress = vi.fn();
+    const result = await runTask(sqliteTask('create', 'merged'), onProgress);
+    expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2]]);
+    expect(result).toMatchObject({ inserted: 2, updated: 0, skippedColumns: [] });
+    expect(result.file.data.length).toBeGreaterThan(0);
+  });
+
+  it('작업이 실패하면 오류 메시지로 거부한다', async () => {
+    await expect(runTask(sqliteTask('upsert', 'nope'), () => {})).rejects.toThrow('테이블을 찾을 수 없습니다: nope');
+    await expect(runTask({ type: 'unknown' } as unknown as Task, () => {})).rejects.toThrow('알 수 없는 작업입니다.');
+  });
+});
@@ -0,0 +1,339 @@
+import * as XLSX from 'xlsx';
+import type { Database } from 'sql.js';
+import type { ProgressHandler, TableRow } from './table';
+import { finalizeRows, importData, type ImportIssue, type ImportOptions, type ImportResult, type ImportSource } from './importers';
+import { sheetToRows, type WorkbookSelection } from './workbook';
+import {
+  findDuplicateKeys,
+  findFuzzyMatches,
+  mergeSources,
+  type FuzzyMatch,
+  type MergeMode,
+  type MergeOptions,
+  type MergeSource,
+  type RowProvenance,
+  type SourcesMergeResult,
+} from './merge';
+import type { KeyMatchOptions } from './keyMatch';
+import { applySchema, formatTable, inferSchema, type ColumnSchema } from './schema';
+import { displayName, toDisplayRows, type ColumnNames } from './columnNames';
+import { unflattenRow } from './jsonRecords';
+import { toCSV, type CsvDelimiter } from './csv';
+import { encodedMimeType, encodeText, type TextEncoding } from './encoding';
+import { buildSqlScript, type SqlScriptOptions } from './sqlScript';
+import {
+  buildMergeReport,
+  MISSING_PROVENANCE_MESSAGE,
+  reportChangeRows,
+  reportColumnRows,
+  reportSummaryRows,
+  type MergeReport,
+} from './report';
+import { createTable, listTables, openDatabase, readTable, upsertTable, type SqliteExportResult } from './sqlite';
+
+// Web Worker에서 실행하는 무거운 작업 (파일 읽기, 병합, 내보내기 직렬화)
+// 작업과 결과는 postMessage로 복사되므로 함수나 클래스 인스턴스를 담지 않음
+
+// 파일 또는 붙여넣은 텍스트 읽기. 통합 문서는 selection의 시트를, 데이터베이스는 selection.sheet 이름의 테이블을 읽음
+export interface ParseTask {
+  type: 'parse';
+  source: ImportSource;
+  options: ImportOptions;
+  // 같은 파일에서 시트/범위만 바꿔 읽을 때 통합 문서나 데이터베이스를 다시 열지 않도록 구분
+  fileId?: string;
+  selection?: Pick<WorkbookSelection, 'sheet' | 'range'>;
+  // 주면 추론한 타입 위에 덮어쓰고 행에 적용해서 돌려줌 (빈 객체면 추론한 타입 그대로 적용)
+  schema?: ColumnSchema;
+}
+
+export interface ParsedFile {
+  kind: ImportResult['kind'];
+  format: string;
+  rows: TableRow[];
+  columnNames: ColumnNames;
+  columns: string[];
+  issues: ImportIssue[];
+  // 추론한 컬럼 타입 (ParseTask.schema를 주면 덮어쓴 결과)
+  schema: ColumnSchema;
+  // 통합 문서의 시트(데이터베이스는 테이블) 목록과 실제로 읽은 시트
+  sheetNames: string[];
+  sheet: string;
+}
+
+export interface MergeTask {
+  type: 'merge';
+  sources: MergeSource[];
+  options: Omit<MergeOptions, 'keyAliases' | 'onProgress'> & { mode?: MergeMode };
+  // 충돌이 없으면 결과 행에 바로 적용할 스키마
+  schema: ColumnSchema;
+}
+
+// duplicates: 중복 처리 방식이 'error'인데 중복 키가 있음
+export type MergeTaskResult = { kind: 'duplicates'; lines: string[] } | ({ kind: 'merged' } & SourcesMergeResult);
+
+// Main 행과 나머지 소스 사이의 퍼지 매칭 후보
+export interface FuzzyTask {
+  type: 'fuzzy';
+  main: TableRow[];
+  sources: { id: string; name: string; rows: TableRow[] }[];
+  keys: string[];
+  keyMatch: KeyMatchOptions;
+}
+
+// 내보낼 표. columns는 행의 키(순서 포함), names는 헤더에 쓸 원래 컬럼명 (비우면 정규화 키)
+export interface ExportTable {
+  rows: TableRow[];
+  columns: string[];
+  names: ColumnNames;
+  schema: ColumnSchema;
+}
+
+// 병합 리포트 작성용. mainName은 기준(첫 번째) 소스 이름
+// provenance가 null이면 새로고침 후 복원한 결과라 셀 출처가 없음
+export interface ReportSource {
+  provenance: RowProvenance[] | null;
+  mainName: string;
+  keys: string[];
+}
+
+export type ExportTask = { type: 'export' } & (
+  | { format: 'json'; table: ExportTable; nested: boolean }
+  | { format: 'csv'; table: ExportTable; delimiter: CsvDelimiter; encoding: TextEncoding }
+  | { format: 'xlsx'; table: ExportTable; sheetName: string }
+  | { format: 'sql'; table: ExportTable; report: ReportSource; options: SqlScriptOptions }
+  | { format: 'reportCsv'; table: ExportTable; report: ReportSource; delimiter: CsvDelimiter; encoding: TextEncoding }
+  | { format: 'reportXlsx'; table: ExportTable; report: ReportSource }
+);
+
+export interface ExportedFile {
+  data: Uint8Array;
+  type: string;
+}
+
+// 표를 SQLite 테이블로 저장한 데이터베이스 파일. buffer가 없으면 새 데이터베이스
+// upsert는 keys가 같은 행을 갱신, create는 새 테이블을 만듦
+export interface SqliteTask {
+  type: 'sqlite';
+  table: ExportTable;
+  buffer: ArrayBuffer | null;
+  target: string;
+  mode: 'create' | 'upsert';
+  keys: string[];
+}
+
+export interface SqliteTaskResult extends SqliteExportResult {
+  file: ExportedFile;
+}
+
+export type Task = ParseTask | MergeTask | FuzzyTask | ExportTask | SqliteTask;
+
+interface TaskResults {
+  parse: ParsedFile;
+  merge: MergeTaskResult;
+  fuzzy: FuzzyMatch[];
+  export: ExportedFile;
+  sqlite: SqliteTaskResult;
+}
+
+export type TaskResult<T extends Task> = TaskResults[T['type']];
+
+// Worker → 호출한 쪽 메시지
+export type TaskMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: TaskResult<Task> }
+  | { type: 'error'; message: string };
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const SQLITE_TYPE = 'application/vnd.sqlite3';
+
+// 마지막으로 읽은 통합 문서와 연 데이터베이스 (시트/범위/테이블을 바꿀 때 재사용)
+let cachedWorkbook: { fileId: string; result: ImportResult } | null = null;
+let cachedDatabase: { fileId: string; db: Database } | null = null;
+
+async function openCachedDatabase(fileId: string | undefined, buffer: ArrayBuffer): Promise<Database> {
+  if (fileId && cachedDatabase?.fileId === fileId) return cachedDatabase.db;
+  cachedDatabase?.db.close();
+  cachedDatabase = null;
+  const db = await openDatabase(buffer);
+  if (fileId) cachedDatabase = { fileId, db };
+  return db;
+}
+
+type Unparsed = Omit<ParsedFile, 'schema'>;
+
+// 추론한 타입에 task.schema를 덮어쓰고, task.schema가 있으면 행에도 적용
+function withSchema(file: Unparsed, overrides?: ColumnSchema): ParsedFile {
+  const schema = inferSchema(file.rows);
+  if (!overrides) return { ...file, schema };
+  Object.keys(overrides).forEach(col => {
+    if (col in schema) schema[col] = overrides[col];
+  });
+  return { ...file, rows: applySchema(file.rows, schema), schema };
+}
+
+async function readDatabase(task: ParseTask, buffer: ArrayBuffer, base: Unparsed, onProgress: ProgressHandler): Promise<Unparsed> {
+  let db: Database;
+  try {
+    db = await openCachedDatabase(task.fileId, buffer);
+  } catch (e) {
+    return { ...base, issues: [...base.issues, { level: 'error', message: 'SQLite 열기 오류: ' + (e as Error).message }] };
+  }
+  try {
+    const sheetNames = listTables(db);
+    const sheet = task.selection && sheetNames.includes(task.selection.sheet) ? task.selection.sheet : sheetNames[0] ?? '';
+    if (!sheet) return { ...base, issues: [...base.issues, { level: 'error', message: '테이블이 없는 데이터베이스입니다.' }] };
+    const issues = [...base.issues];
+    const { rows, columns } = readTable(db, sheet, onProgress);
+    return { ...base, sheetNames, sheet, ...finalizeRows(rows, issues, columns), issues };
+  } catch (e) {
+    return { ...base, issues: [...base.issues, { level: 'error', message: '테이블 읽기 오류: ' + (e as Error).message }] };
+  } finally {
+    if (db !== cachedDatabase?.db) db.close();
+  }
+}
+
+async function parseFile(task: ParseTask, onProgress: ProgressHandler): Promise<ParsedFile> {
+  let result: ImportResult;
+  if (task.fileId && cachedWorkbook?.fileId === task.fileId) {
+    result = cachedWorkbook.result;
+  } else {
+    result = importData(task.source, task.options, onProgress);
+    cachedWorkbook = task.fileId && result.kind === 'workbook' ? { fileId: task.fileId, result } : null;
+  }
+  const empty = { rows: [], columnNames: {}, columns: [], sheetNames: [], sheet: '' };
+  if (result.kind === 'table') return withSchema({ ...empty, ...result }, task.schema);
+  if (result.kind === 'database') {
+    const base = { ...empty, kind: result.kind, format: result.format, issues: result.issues };
+    return withSchema(await readDatabase(task, result.buffer, base, onProgress), task.schema);
+  }
+
+  const sheetNames = result.workbook.SheetNames;
+  const sheet = task.selection && sheetNames.includes(task.selection.sheet) ? task.selection.sheet : sheetNames[0] ?? '';
+  const issues = [...result.issues];
+  const base = { kind: result.kind, format: result.format, sheetNames, sheet };
+  try {
+    const { rows, columns } = sheetToRows(result.workbook, { sheet, headerRow: task.options.headerRow ?? 1, range: task.selection?.range ?? '' });
+    return withSchema({ ...base, ...finalizeRows(rows, issues, columns), issues }, task.schema);
+  } catch (e) {
+    return withSchema(
+      { ...base, rows: [], columnNames: {}, columns: [], issues: [...issues, { level: 'error', message: '시트 읽기 오류: ' + (e as Error).message }] },
+      task.schema
+    );
+  }
+}
+
+function merge(task: MergeTask, onProgress: ProgressHandler): MergeTaskResult {
+  const { keys, duplicates, keyMatch } = task.options;
+  if (duplicates === 'error') {
+    const lines = task.sources.flatMap(src =>
+      findDuplicateKeys(src.rows, keys, keyMatch).slice(0, 10).map(d => `${src.name} [${d.keyLabel}] 행 ${d.rowNumbers.join(', ')}`)
+    );
+    if (lines.length > 0) return { kind: 'duplicates', lines };
+  }
+  const result = mergeSources(task.sources, { ...task.options, onProgress });
+  // 충돌이 있으면 검토 후 호출한 쪽에서 스키마를 적용
+  const rows = result.conflicts.length > 0 ? result.rows : applySchema(result.rows, task.schema);
+  return { kind: 'merged', ...result, rows };
+}
+
+function fuzzy(task: FuzzyTask, onProgress: ProgressHandler): FuzzyMatch[] {
+  return task.sources.flatMap((src, i) =>
+    findFuzzyMatches(task.main, src.rows, task.keys, task.keyMatch, (done, total) => onProgress(i + done / Math.max(1, total), task.sources.length))
+      .map(m => ({ ...m, sourceId: src.id, source: src.name }))
+  );
+}
+
+const headersOf = (table: ExportTable) => table.columns.map(col => displayName(table.names, col));
+
+// 표시 형식을 적용한 엑셀 시트
+function tableSheet(table: ExportTable): XLSX.WorkSheet {
+  const rows = toDisplayRows(formatTable(table.rows, table.schema), table.columns, table.names);
+  return XLSX.utils.json_to_sheet(rows, { header: headersOf(table) });
+}
+
+function workbookFile(sheets: [string, XLSX.WorkSheet][]): ExportedFile {
+  const wb = XLSX.utils.book_new();
+  sheets.forEach(([name, ws]) => XLSX.utils.book_append_sheet(wb, ws, name));
+  return { data: new Uint8Array(XLSX.write(wb, { bookType: 'xlsx', type: 'array' })), type: XLSX_TYPE };
+}
+
+const textFile = (text: string, type: string): ExportedFile => ({ data: new TextEncoder().encode(text), type });
+
+// 셀 출처가 없으면 모든 행이 변경 없음으로 나오므로 리포트를 만들지 않음
+function mergeReport(table: ExportTable, { provenance, mainName, keys }: ReportSource): MergeReport {
+  if (!provenance) throw new Error(MISSING_PROVENANCE_MESSAGE);
+  return buildMergeReport(table.rows, provenance, mainName, keys);
+}
+
+function exportFile(task: ExportTask): ExportedFile {
+  const { table } = task;
+  switch (task.format) {
+    case 'json': {
+      const rows = toDisplayRows(table.rows, table.columns, table.names);
+      return textFile(JSON.stringify(task.nested ? rows.map(unflattenRow) : rows, null, 2), 'text/plain');
+    }
+    case 'csv': {
+      const content = toCSV(formatTable(table.rows, table.schema), table.columns, { delimiter: task.delimiter, headers: headersOf(table) });
+      return { data: encodeText(content, task.encoding), type: encodedMimeType(task.encoding) };
+    }
+    case 'xlsx':
+      return workbookFile([[task.sheetName, tableSheet(table)]]);
+    case 'sql': {
+      // 변경분 스크립트는 리포트에서 바뀐 행을 고르므로 셀 출처가 없으면 만들지 않음
+      const report = task.options.mode === 'insert' ? undefined : mergeReport(table, task.report);
+      const { keys } = task.report;
+      const script = buildSqlScript({ rows: table.rows, columns: table.columns, names: headersOf(table), schema: table.schema, keys, report }, task.options);
+      return textFile(script, 'application/sql');
+    }
+    case 'reportCsv':
+    case 'reportXlsx': {
+      const report = mergeReport(table, task.report);
+      const changes = reportChangeRows(report, table.names);
+      if (task.format === 'reportCsv') {
+        // 요약, 컬럼별 변경 수, 변경 목록을 빈 줄로 구분해 한 파일에 씀
+        const options = { delimiter: task.delimiter };
+        const content = [
+          toCSV(reportSummaryRows(report), ['항목', '값'], options),
+          toCSV(reportColumnRows(report, table.names), ['컬럼', '변경', '추가'], options),
+          toCSV(changes, ['행', '키', '컬럼', '구분', '출처', '이전값', '새값'], options),
+        ].join('\r\n\r\n');
+        return { data: encodeText(content, task.encoding), type: encodedMimeType(task.encoding) };
+      }
+      return workbookFile([
+        ['Summary', XLSX.utils.json_to_sheet(reportSummaryRows(report))],
+        ['Columns', XLSX.utils.json_to_sheet(reportColumnRows(report, table.names))],
+        ['Changes', XLSX.utils.json_to_sheet(changes)],
+        ['Merged', tableSheet(table)],
+      ]);
+    }
+  }
+}
+
+async function exportSqlite(task: SqliteTask, onProgress: ProgressHandler): Promise<SqliteTaskResult> {
+  const db = await openDatabase(task.buffer ?? undefined);
+  try {
+    const data = { ...task.table, names: headersOf(task.table) };
+    const result = task.mode === 'upsert'
+      ? upsertTable(db, task.target, data, task.keys, onProgress)
+      : createTable(db, task.target, data, onProgress);
+    return { ...result, file: { data: db.export(), type: SQLITE_TYPE } };
+  } finally {
+    db.close();
+  }
+}
+
+export async function runTask<T extends Task>(task: T, onProgress: ProgressHandler): Promise<TaskResult<T>> {
+  switch (task.type) {
+    case 'parse':
+      return (await parseFile(task, onProgress)) as TaskResult<T>;
+    case 'merge':
+      return merge(task, onProgress) as TaskResult<T>;
+    case 'fuzzy':
+      return fuzzy(task, onProgress) as TaskResult<T>;
+    case 'export':
+      return exportFile(task) as TaskResult<T>;
+    case 'sqlite':
+      return (await exportSqlite(task, onProgress)) as TaskResult<T>;
+  }
+  throw new Error('알 수 없는 작업입니다.');
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { sheetToRows } from './workbook';
+
+function workbook(records: (string | number)[][]): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(records), 'Data');
+  return wb;
+}
+
+describe('스프레드시트 읽기', () => {
+  const wb = workbook([['제목'], ['id', 'name', '10'], [1, 'a', 'x'], [2, 'b', 'y']]);
+
+  it('헤더 행 이전을 건너뛰고 헤더 순서를 유지한다', () => {
+    expect(sheetToRows(wb, { sheet: 'Data', headerRow: 2, range: '' })).toEqual({
+      rows: [{ id: '1', name: 'a', 10: 'x' }, { id: '2', name: 'b', 10: 'y' }],
+      columns: ['id', 'name', '10'],
+    });
+  });
+
+  it('셀 범위만 읽는다', () => {
+    expect(sheetToRows(wb, { sheet: 'Data', headerRow: 1, range: 'B2:B3' })).toEqual({ rows: [{ name: 'a' }], columns: ['name'] });
+  });
+
+  it('없는 시트와 잘못된 범위는 오류', () => {
+    expect(() => sheetToRows(wb, { sheet: 'None', headerRow: 1, range: '' })).toThrow('시트를 찾을 수 없습니다');
+    expect(() => sheetToRows(wb, { sheet: 'Data', headerRow: 1, range: 'C3:A1' })).toThrow('잘못된 범위');
+  });
+});
@@ -0,0 +1,52 @@
+import * as XLSX from 'xlsx';
+import type { TableRow } from './table';
+import { recordsToRows, uniqueHeaders } from './csv';
+
+// 시트 선택이 필요한 스프레드시트 형식
+export const WORKBOOK_EXTENSIONS = ['.xlsx', '.xlsm', '.xls', '.ods'];
+
+// headerRow는 시트 기준 1부터 시작하는 행 번호, range는 A1 표기(예: B3:F120). 비어 있으면 시트 전체
+export interface WorkbookSelection {
+  sheet: string;
+  headerRow: number;
+  range: string;
+}
+
+export function readWorkbook(buffer: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(new Uint8Array(buffer), { type: 'array' });
+}
+
+// 선택한 범위에서 헤더 행 이전을 잘라낸 실제 읽기 범위
+function resolveRange(sheet: XLSX.WorkSheet, selection: WorkbookSelection): XLSX.Range | null {
+  const ref = selection.range.trim() || sheet['!ref'];
+  if (!ref) return null;
+  const range = XLSX.utils.decode_range(ref.toUpperCase());
+  if (range.s.r < 0 || range.s.c < 0 || range.e.r < range.s.r || range.e.c < range.s.c) {
+    throw new Error(`잘못된 범위입니다: ${selection.range}`);
+  }
+  range.s.r = Math.max(range.s.r, selection.headerRow - 1);
+  return range.s.r > range.e.r ? null : range;
+}
+
+function getSheet(workbook: XLSX.WorkBook, name: string): XLSX.WorkSheet {
+  const sheet = workbook.Sheets[name];
+  if (!sheet) throw new Error(`시트를 찾을 수 없습니다: ${name}`);
+  return sheet;
+}
+
+// 서식이 적용된 텍스트로 읽어 00123 같은 값을 보존하고 타입은 스키마 추론에 맡김
+// 객체 키 순서는 숫자 이름 컬럼이 앞으로 오므로 헤더 순서를 columns로 따로 돌려줌
+export function sheetToRows(workbook: XLSX.WorkBook, selection: WorkbookSelection): { rows: TableRow[]; columns: string[] } {
+  const sheet = getSheet(workbook, selection.sheet);
+  const range = resolveRange(sheet, selection);
+  if (!range) return { rows: [], columns: [] };
+  const records = XLSX.utils.sheet_to_json<string[]>(sheet, {
+    header: 1,
+    range: XLSX.utils.encode_range(range),
+    defval: '',
+    blankrows: false,
+    raw: false,
+    dateNF: 'yyyy-mm-dd',
+  }).map(record => record.map(value => String(value ?? '')));
+  return { rows: recordsToRows(records), columns: records.length > 0 ? uniqueHeaders(records[0]) : [] };
+}